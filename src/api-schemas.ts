@@ -0,0 +1,52 @@
+import { array, number, object, optional, record, Schema, string, unknown } from './schema.js';
+
+/**
+ * Declared shapes of the Guardian Intel API payloads. Every payload is wrapped
+ * in a `{ result }` envelope; the envelope's own fields are not kept.
+ */
+function envelope<T>(result: Schema<T>) {
+  return object({ result }, { keepExtra: false });
+}
+
+const asnSchema = object({
+  asn: string(),
+  name: string(),
+  countryCode: string()
+});
+
+const abuseContactSchema = object({
+  email: string(),
+  status: string(),
+  lastVerification: string()
+});
+
+export const lookupSchema = envelope(object({
+  item: string(),
+  tags: optional(array(string())),
+  intent: optional(string()),
+  firstSeen: optional(string()),
+  lastSeen: optional(string()),
+  asn: optional(asnSchema),
+  abuseContact: optional(abuseContactSchema),
+  observedActivity: optional(record(unknown()))
+}));
+
+const tagSchema = object({
+  name: string(),
+  intent: optional(string()),
+  category: optional(string()),
+  description: optional(string())
+});
+
+export const tagsSchema = envelope(array(tagSchema));
+
+export const tagDetailsSchema = envelope(tagSchema);
+
+export const tagIpsSchema = envelope(object({
+  tag: optional(string()),
+  total: optional(number()),
+  offset: optional(number()),
+  limit: optional(number()),
+  snapshot: optional(string()),
+  entries: optional(array(string()))
+}));
@@ -0,0 +1,270 @@
+import { ValidationError } from './errors.js';
+import type { GuardianIntelClient } from './guardian-intel-client.js';
+import { parseCidr, parseIp } from './ip-address.js';
+
+export const BLOCKLIST_FORMATS = ['txt', 'csv', 'ipset', 'nftables', 'iptables', 'pf', 'suricata', 'snort', 'edl'] as const;
+
+export type BlocklistFormat = typeof BLOCKLIST_FORMATS[number];
+
+export interface BlocklistMetadata {
+  tag: string;
+  snapshot?: string;
+  /** Entries the API reported for the tag */
+  total?: number;
+  generatedAt: Date;
+}
+
+export interface BlocklistOptions {
+  /** ipset, nftables set, iptables chain or pf table name; derived from the tag by default */
+  setName?: string;
+  /** Suricata reputation category id, a positive integer (default: 1) */
+  category?: number;
+  /** Suricata reputation score, an integer from 0 to 127 (default: 127) */
+  score?: number;
+}
+
+export interface BlocklistExportOptions extends BlocklistOptions {
+  /** Stop after this many entries and flag the export as truncated */
+  maxEntries?: number;
+  /** Export even when the remaining quota is below the soft limit */
+  force?: boolean;
+  signal?: AbortSignal;
+  now?: () => Date;
+}
+
+export interface BlocklistExportResult {
+  tag: string;
+  format: BlocklistFormat;
+  snapshot?: string;
+  total?: number;
+  /** Entries written */
+  entries: number;
+  /** Entries that were neither an address nor a prefix */
+  skipped: number;
+  pages: number;
+  truncated: boolean;
+}
+
+interface BlocklistEntry {
+  /** Address or prefix in canonical form */
+  value: string;
+  version: 4 | 6;
+}
+
+interface BlocklistWriter {
+  header(meta: BlocklistMetadata): string[];
+  entry(entry: BlocklistEntry, meta: BlocklistMetadata): string;
+}
+
+const IPSET_DEFAULT_MAXELEM = 65536;
+const SET_NAME_PATTERN = /^[A-Za-z0-9_]+$/;
+const DEFAULT_NAME_LIMIT = 31;
+
+// Longest usable base name per format. ipset and nftables names (31
+// characters on older kernels) must leave room for the _v4/_v6 suffix, and
+// iptables chain names must be shorter than 29 characters.
+const NAME_LIMITS: Partial<Record<BlocklistFormat, number>> = {
+  ipset: 28,
+  nftables: 28,
+  iptables: 28,
+  pf: 31
+};
+
+export function isBlocklistFormat(format: unknown): format is BlocklistFormat {
+  return (BLOCKLIST_FORMATS as readonly unknown[]).includes(format);
+}
+
+/** Longest set, chain or table name `format` accepts, before any _v4/_v6 suffix. */
+export function setNameLimit(format: BlocklistFormat): number {
+  return NAME_LIMITS[format] ?? DEFAULT_NAME_LIMIT;
+}
+
+/** A name of letters, digits and underscores derived from the tag, cut to `maxLength`. */
+export function defaultSetName(tag: string, maxLength = DEFAULT_NAME_LIMIT): string {
+  const name = `gi_${tag.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')}`;
+  return name.slice(0, maxLength).replace(/_+$/, '');
+}
+
+/**
+ * The name ends up unquoted in shell scripts and firewall rule files, so
+ * anything beyond letters, digits and underscores is refused.
+ */
+function resolveSetName(format: BlocklistFormat, tag: string, setName: string | undefined): string {
+  const limit = setNameLimit(format);
+  if (setName === undefined) {
+    return defaultSetName(tag, limit);
+  }
+  if (typeof setName !== 'string' || !SET_NAME_PATTERN.test(setName) || setName.length > limit) {
+    throw new ValidationError(
+      `setName must be 1 to ${limit} letters, digits or underscores for the ${format} format`
+    );
+  }
+  return setName;
+}
+
+function toEntry(raw: string): BlocklistEntry | undefined {
+  const ip = parseIp(raw.trim());
+  if (ip) {
+    return { value: ip.address, version: ip.version };
+  }
+  const cidr = parseCidr(raw.trim());
+  return cidr ? { value: cidr.cidr, version: cidr.version } : undefined;
+}
+
+function comment(meta: BlocklistMetadata, prefix = '#', extra: string[] = []): string[] {
+  return [
+    'Guardian Intel blocklist',
+    `Tag: ${meta.tag}`,
+    `Snapshot: ${meta.snapshot ?? 'none'}`,
+    `Generated: ${meta.generatedAt.toISOString()}`,
+    ...(meta.total !== undefined ? [`Entries in tag: ${meta.total}`] : []),
+    ...extra
+  ].map(line => `${prefix} ${line}`);
+}
+
+function createWriter(format: BlocklistFormat, options: BlocklistOptions, tag: string): BlocklistWriter {
+  const name = resolveSetName(format, tag, options.setName);
+
+  switch (format) {
+    case 'txt':
+    case 'edl':
+      return { header: meta => comment(meta), entry: entry => entry.value };
+
+    case 'csv':
+      return {
+        header: meta => [...comment(meta), 'ip,version,tag,snapshot'],
+        entry: (entry, meta) => [entry.value, entry.version, meta.tag, meta.snapshot ?? ''].map(csvField).join(',')
+      };
+
+    case 'ipset':
+      return {
+        header: (meta) => {
+          const maxelem = Math.max(IPSET_DEFAULT_MAXELEM, meta.total ?? 0);
+          return [
+            ...comment(meta, '#', [`Load with: ipset restore < this-file`]),
+            `create ${name} hash:net family inet maxelem ${maxelem} -exist`,
+            `create ${name}_v6 hash:net family inet6 maxelem ${maxelem} -exist`
+          ];
+        },
+        entry: entry => `add ${entry.version === 4 ? name : `${name}_v6`} ${entry.value} -exist`
+      };
+
+    case 'nftables':
+      return {
+        header: meta => [
+          ...comment(meta, '#', [`Load with: nft -f this-file`]),
+          'add table inet guardian_intel',
+          `add set inet guardian_intel ${name}_v4 { type ipv4_addr; flags interval; }`,
+          `add set inet guardian_intel ${name}_v6 { type ipv6_addr; flags interval; }`
+        ],
+        entry: entry => `add element inet guardian_intel ${name}_v${entry.version} { ${entry.value} }`
+      };
+
+    case 'iptables':
+      return {
+        header: meta => [
+          '#!/bin/sh',
+          ...comment(meta, '#', [`Jump to the ${name} chain from INPUT or FORWARD to apply it`]),
+          `iptables -N ${name} 2>/dev/null || iptables -F ${name}`,
+          `ip6tables -N ${name} 2>/dev/null || ip6tables -F ${name}`
+        ],
+        entry: entry => `${entry.version === 4 ? 'iptables' : 'ip6tables'} -A ${name} -s ${entry.value} -j DROP`
+      };
+
+    case 'pf':
+      return {
+        header: meta => comment(meta, '#', [`Load with: pfctl -t ${name} -T replace -f this-file`]),
+        entry: entry => entry.value
+      };
+
+    case 'suricata': {
+      const category = options.category ?? 1;
+      const score = options.score ?? 127;
+      if (!Number.isInteger(category) || category < 1) {
+        throw new ValidationError('category must be a positive integer');
+      }
+      if (!Number.isInteger(score) || score < 0 || score > 127) {
+        throw new ValidationError('score must be an integer from 0 to 127');
+      }
+      return {
+        header: meta => comment(meta, '#', [`Category ${category} in categories.txt: ${category},${name},Guardian Intel ${meta.tag}`]),
+        entry: entry => `${entry.value},${category},${score}`
+      };
+    }
+
+    case 'snort':
+      return {
+        header: meta => comment(meta, '#', ['Use as a reputation preprocessor blacklist file']),
+        entry: entry => entry.value
+      };
+  }
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Walks every page of a tag on one snapshot and hands the blocklist to
+ * `write` line by line, header first, so callers can stream it to a file.
+ * Once the first page reports the total, the remaining pages are checked
+ * against the quota soft limit unless `force` is set.
+ */
+export async function exportBlocklist(
+  client: GuardianIntelClient,
+  tag: string,
+  format: BlocklistFormat,
+  write: (line: string) => void | Promise<void>,
+  options: BlocklistExportOptions = {}
+): Promise<BlocklistExportResult> {
+  const writer = createWriter(format, options, tag);
+  const now = options.now ?? (() => new Date());
+  const maxEntries = options.maxEntries ?? Infinity;
+  const result: BlocklistExportResult = { tag, format, entries: 0, skipped: 0, pages: 0, truncated: false };
+  let meta: BlocklistMetadata | undefined;
+
+  for await (const page of client.iterateTagIps(tag, { signal: options.signal })) {
+    result.pages++;
+
+    if (!meta) {
+      meta = { tag, snapshot: page.snapshot, total: page.total, generatedAt: now() };
+      result.snapshot = page.snapshot;
+      result.total = page.total;
+
+      if (!options.force && page.total !== undefined && page.total > page.ips.length) {
+        const pageSize = page.limit || page.ips.length;
+        client.assertQuotaAvailable('blocklist export', Math.ceil((page.total - page.ips.length) / pageSize));
+      }
+      for (const line of writer.header(meta)) {
+        await write(line);
+      }
+    }
+
+    for (const raw of page.ips) {
+      if (result.entries >= maxEntries) {
+        result.truncated = true;
+        break;
+      }
+      const entry = toEntry(raw);
+      if (!entry) {
+        result.skipped++;
+        continue;
+      }
+      await write(writer.entry(entry, meta));
+      result.entries++;
+    }
+    if (result.truncated) {
+      break;
+    }
+  }
+
+  if (!meta) {
+    // An empty tag still gets a header so the file is recognisable
+    for (const line of writer.header({ tag, generatedAt: now() })) {
+      await write(line);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,77 @@
+export interface CacheEntry<V> {
+  value: V;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface CacheLookup<V> {
+  value: V;
+  ageMs: number;
+}
+
+/**
+ * Bounded LRU cache with a per-entry TTL. Relies on Map insertion order:
+ * the first key is always the least recently used one.
+ */
+export class TtlCache<V> {
+  private readonly entries = new Map<string, CacheEntry<V>>();
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly now: () => number = Date.now
+  ) {
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new Error('Cache size must be a positive integer');
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get capacity(): number {
+    return this.maxEntries;
+  }
+
+  get(key: string): CacheLookup<V> | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    const now = this.now();
+    if (entry.expiresAt <= now) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Move to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    return { value: entry.value, ageMs: now - entry.storedAt };
+  }
+
+  set(key: string, value: V, ttlMs: number): void {
+    if (ttlMs <= 0) {
+      return;
+    }
+
+    const now = this.now();
+    this.entries.delete(key);
+    this.entries.set(key, { value, storedAt: now, expiresAt: now + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
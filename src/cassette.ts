@@ -0,0 +1,171 @@
+import { createHash } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  InternalAxiosRequestConfig
+} from 'axios';
+import { RequestCoalescer } from './coalescer.js';
+import { CassetteMissError } from './errors.js';
+import { CassetteConfig, CassetteMode } from './types.js';
+
+const REDACTED = '[REDACTED]';
+const SECRET_HEADERS = ['x-api-key', 'authorization', 'proxy-authorization'];
+
+/** One recorded request/response pair, stored as a JSON file. */
+export interface CassetteEntry {
+  request: {
+    method: string;
+    url: string;
+    params?: Record<string, unknown>;
+    headers: Record<string, unknown>;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, unknown>;
+    data: unknown;
+  };
+  recorded_at: string;
+}
+
+export function parseCassetteMode(value: string | undefined): CassetteMode | undefined {
+  if (!value || value === 'off') {
+    return undefined;
+  }
+  if (value === 'record' || value === 'replay') {
+    return value;
+  }
+  throw new Error(`Invalid cassette mode "${value}" - expected record, replay or off`);
+}
+
+function requestKey(config: InternalAxiosRequestConfig): string {
+  return RequestCoalescer.key(config.method ?? 'get', config.url ?? '', config.params);
+}
+
+/**
+ * File name for a request: a readable slug of the path plus a hash of the
+ * full key, so requests that differ only in their query get separate files.
+ */
+export function cassetteFileName(key: string): string {
+  const [method, target] = key.split(' ');
+  const slug = target.split('?')[0].replace(/[^A-Za-z0-9.-]+/g, '_').replace(/^_+|_+$/g, '');
+  const hash = createHash('sha256').update(key).digest('hex').slice(0, 12);
+  return `${method.toLowerCase()}_${slug || 'root'}_${hash}.json`;
+}
+
+function redactHeaders(headers: AxiosHeaders | Record<string, unknown> | undefined): Record<string, unknown> {
+  const plain = AxiosHeaders.from((headers ?? {}) as Record<string, string>).toJSON() as Record<string, unknown>;
+
+  for (const name of Object.keys(plain)) {
+    if (SECRET_HEADERS.includes(name.toLowerCase())) {
+      plain[name] = REDACTED;
+    }
+  }
+  return plain;
+}
+
+function toEntry(config: InternalAxiosRequestConfig, response: AxiosResponse): CassetteEntry {
+  return {
+    request: {
+      method: (config.method ?? 'get').toUpperCase(),
+      url: config.url ?? '',
+      params: config.params,
+      headers: redactHeaders(config.headers)
+    },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers: redactHeaders(response.headers),
+      data: response.data
+    },
+    recorded_at: new Date().toISOString()
+  };
+}
+
+function toResponse(config: InternalAxiosRequestConfig, entry: CassetteEntry['response']): AxiosResponse {
+  const response: AxiosResponse = {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: AxiosHeaders.from(entry.headers as Record<string, string>),
+    data: entry.data,
+    config
+  };
+
+  const validateStatus = config.validateStatus;
+  if (validateStatus && !validateStatus(response.status)) {
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      undefined,
+      response
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Builds an axios adapter that records every response to `config.dir`, or
+ * answers from it without touching the network. The API key and other
+ * credentials are redacted before anything is written. Error responses
+ * (404, 503, ...) are recorded and replayed like any other; connection
+ * failures are not recorded.
+ */
+export function createCassetteAdapter(config: CassetteConfig, upstream?: AxiosAdapter): AxiosAdapter {
+  if (config.mode === 'record') {
+    mkdirSync(config.dir, { recursive: true });
+
+    return async (request) => {
+      const send = upstream ?? axios.getAdapter(axios.defaults.adapter);
+      const secret = request.headers?.['x-api-key'];
+
+      const save = (response: AxiosResponse) => {
+        let text = JSON.stringify(toEntry(request, response), null, 2);
+        if (typeof secret === 'string' && secret.length > 0) {
+          text = text.split(secret).join(REDACTED);
+        }
+        writeFileSync(join(config.dir, cassetteFileName(requestKey(request))), `${text}\n`);
+      };
+
+      try {
+        const response = await send(request);
+        save(response);
+        return response;
+      } catch (error) {
+        if (error instanceof AxiosError && error.response) {
+          save(error.response);
+        }
+        throw error;
+      }
+    };
+  }
+
+  return async (request) => {
+    const key = requestKey(request);
+    let entry: CassetteEntry;
+
+    try {
+      entry = JSON.parse(readFileSync(join(config.dir, cassetteFileName(key)), 'utf8')) as CassetteEntry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      if (config.strict) {
+        throw new CassetteMissError(`No recorded response for ${key} in ${config.dir}`);
+      }
+      return toResponse(request, {
+        status: 404,
+        statusText: 'Not Found',
+        headers: {},
+        data: { message: 'No recorded response for this request' }
+      });
+    }
+
+    return toResponse(request, entry.response);
+  };
+}
@@ -0,0 +1,201 @@
+import { CircuitOpenError } from './errors.js';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerPolicy {
+  /** Fraction of failed requests in the window that opens the circuit */
+  failureRateThreshold: number;
+  /** Requests the window must hold before the failure rate is evaluated */
+  minimumRequests: number;
+  /** Number of most recent requests considered */
+  windowSize: number;
+  /** How long the circuit stays open before probing */
+  openDurationMs: number;
+  /** Probe requests allowed at once while half-open */
+  halfOpenProbes: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_POLICY: CircuitBreakerPolicy = {
+  failureRateThreshold: 0.5,
+  minimumRequests: 10,
+  windowSize: 20,
+  openDurationMs: 30000,
+  halfOpenProbes: 1
+};
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  failureRate: number;
+  recentRequests: number;
+  recentFailures: number;
+  openedAt?: string;
+  retryAfterMs?: number;
+}
+
+export interface CircuitStateChange {
+  from: CircuitState;
+  to: CircuitState;
+  snapshot: CircuitBreakerSnapshot;
+}
+
+/** Snake-case view of a snapshot, as reported by the status tool and diagnostics. */
+export interface CircuitBreakerStatus {
+  state: CircuitState | 'disabled';
+  failure_rate?: number;
+  recent_requests?: number;
+  recent_failures?: number;
+  opened_at?: string;
+  retry_after_seconds?: number;
+}
+
+export function toCircuitBreakerStatus(snapshot: CircuitBreakerSnapshot | undefined): CircuitBreakerStatus {
+  if (!snapshot) {
+    return { state: 'disabled' };
+  }
+
+  return {
+    state: snapshot.state,
+    failure_rate: Math.round(snapshot.failureRate * 100) / 100,
+    recent_requests: snapshot.recentRequests,
+    recent_failures: snapshot.recentFailures,
+    opened_at: snapshot.openedAt,
+    retry_after_seconds: snapshot.retryAfterMs !== undefined ? Math.ceil(snapshot.retryAfterMs / 1000) : undefined
+  };
+}
+
+/**
+ * Failure-rate circuit breaker. While open, calls fail fast with a
+ * CircuitOpenError; after `openDurationMs` a limited number of half-open
+ * probes decide whether to close the circuit again or re-open it. Errors
+ * matched by `isIgnored`, such as a caller abort, say nothing about the
+ * upstream and are not recorded; a probe ending in one leaves the circuit
+ * half-open for the next call.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private outcomes: boolean[] = [];
+  private openedAt?: number;
+  private probesInFlight = 0;
+
+  constructor(
+    private readonly policy: CircuitBreakerPolicy,
+    private readonly onStateChange?: (change: CircuitStateChange) => void,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async execute<T>(
+    operation: () => Promise<T>,
+    isFailure: (error: unknown) => boolean,
+    isIgnored: (error: unknown) => boolean = () => false
+  ): Promise<T> {
+    this.beforeRequest();
+
+    const probing = this.state === 'half_open';
+    if (probing) {
+      this.probesInFlight++;
+    }
+
+    try {
+      const result = await operation();
+      this.record(true);
+      return result;
+    } catch (error) {
+      if (!isIgnored(error)) {
+        this.record(!isFailure(error));
+      }
+      throw error;
+    } finally {
+      if (probing) {
+        this.probesInFlight--;
+      }
+    }
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    const recentFailures = this.outcomes.filter(success => !success).length;
+    const snapshot: CircuitBreakerSnapshot = {
+      state: this.currentState(),
+      failureRate: this.outcomes.length > 0 ? recentFailures / this.outcomes.length : 0,
+      recentRequests: this.outcomes.length,
+      recentFailures
+    };
+
+    if (this.openedAt !== undefined) {
+      snapshot.openedAt = new Date(this.openedAt).toISOString();
+    }
+
+    if (snapshot.state === 'open') {
+      snapshot.retryAfterMs = this.retryAfterMs();
+    }
+
+    return snapshot;
+  }
+
+  private currentState(): CircuitState {
+    if (this.state === 'open' && this.retryAfterMs() <= 0) {
+      this.transition('half_open');
+    }
+    return this.state;
+  }
+
+  private retryAfterMs(): number {
+    return Math.max(0, (this.openedAt ?? 0) + this.policy.openDurationMs - this.now());
+  }
+
+  private beforeRequest(): void {
+    const state = this.currentState();
+
+    if (state === 'open' || (state === 'half_open' && this.probesInFlight >= this.policy.halfOpenProbes)) {
+      const retryAfterMs = state === 'open' ? this.retryAfterMs() : this.policy.openDurationMs;
+      throw new CircuitOpenError(
+        `Guardian Intel upstream degraded - failing fast, retry after ${Math.ceil(retryAfterMs / 1000)}s`,
+        { retryAfterMs }
+      );
+    }
+  }
+
+  private record(success: boolean): void {
+    if (this.state === 'half_open') {
+      if (success) {
+        this.outcomes = [];
+        this.openedAt = undefined;
+        this.transition('closed');
+      } else {
+        this.open();
+      }
+      return;
+    }
+
+    if (this.state === 'open') {
+      return;
+    }
+
+    this.outcomes.push(success);
+    if (this.outcomes.length > this.policy.windowSize) {
+      this.outcomes.shift();
+    }
+
+    const failures = this.outcomes.filter(outcome => !outcome).length;
+    if (
+      this.outcomes.length >= this.policy.minimumRequests &&
+      failures / this.outcomes.length >= this.policy.failureRateThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  private open(): void {
+    this.openedAt = this.now();
+    this.transition('open');
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    if (from === to) {
+      return;
+    }
+
+    this.state = to;
+    this.onStateChange?.({ from, to, snapshot: this.getSnapshot() });
+  }
+}
@@ -0,0 +1,76 @@
+interface InflightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * Shares one in-flight promise between identical concurrent requests. Every
+ * waiter gets the same result or the same error. A waiter that cancels only
+ * detaches itself; the shared request is aborted once no waiter is left.
+ */
+export class RequestCoalescer {
+  private readonly inflight = new Map<string, InflightRequest>();
+
+  get size(): number {
+    return this.inflight.size;
+  }
+
+  static key(method: string, path: string, params: Record<string, unknown> = {}): string {
+    const query = Object.keys(params)
+      .filter(name => params[name] !== undefined)
+      .sort()
+      .map(name => `${encodeURIComponent(name)}=${encodeURIComponent(String(params[name]))}`)
+      .join('&');
+
+    return `${method.toUpperCase()} ${path}${query ? `?${query}` : ''}`;
+  }
+
+  run<T>(key: string, factory: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    let entry = this.inflight.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InflightRequest = {
+        controller,
+        waiters: 0,
+        promise: factory(controller.signal).finally(() => {
+          if (this.inflight.get(key) === created) {
+            this.inflight.delete(key);
+          }
+        })
+      };
+      entry = created;
+      this.inflight.set(key, entry);
+    }
+
+    const shared = entry;
+    shared.waiters++;
+
+    if (!signal) {
+      return shared.promise as Promise<T>;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        shared.waiters--;
+        if (shared.waiters === 0) {
+          shared.controller.abort(signal.reason);
+          if (this.inflight.get(key) === shared) {
+            this.inflight.delete(key);
+          }
+        }
+        reject(signal.reason);
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      (shared.promise as Promise<T>).then(resolve, reject).finally(() => {
+        signal.removeEventListener('abort', onAbort);
+      });
+    });
+  }
+}
@@ -0,0 +1,266 @@
+import { promises as dns } from 'dns';
+import net from 'net';
+import tls from 'tls';
+import { createTlsOptions, usesProxy } from './network.js';
+import {
+  ApiEndpoint,
+  ConnectivityDiagnostics,
+  DiagnosticCheck,
+  DiagnosticsReport,
+  DiagnosticStatus,
+  EndpointDiagnostics,
+  NetworkConfig
+} from './types.js';
+
+export const PROBE_TIMEOUT_MS = 5000;
+const SLOW_PROBE_MS = 2000;
+const RATE_LIMIT_HEADER = /^(?:x-)?(?:rate-?limit|quota)|^retry-after$/i;
+
+const elapsed = (started: number) => Date.now() - started;
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    return code && !error.message.includes(code) ? `${code}: ${error.message}` : error.message;
+  }
+  return String(error);
+}
+
+function connectTcp(host: string, port: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect({ host, port });
+    socket.setTimeout(PROBE_TIMEOUT_MS, () => socket.destroy(new Error(`Timed out after ${PROBE_TIMEOUT_MS} ms`)));
+    socket.once('connect', () => {
+      socket.end();
+      resolve();
+    });
+    socket.once('error', reject);
+  });
+}
+
+function connectTls(host: string, port: number, network: NetworkConfig): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = tls.connect({
+      host,
+      port,
+      servername: net.isIP(host) ? undefined : host,
+      ...createTlsOptions(network)
+    });
+    socket.setTimeout(PROBE_TIMEOUT_MS, () => socket.destroy(new Error(`Timed out after ${PROBE_TIMEOUT_MS} ms`)));
+    socket.once('secureConnect', () => {
+      socket.end();
+      resolve(socket);
+    });
+    socket.once('error', reject);
+  });
+}
+
+function timed(status: DiagnosticStatus, started: number, detail?: string): DiagnosticCheck {
+  const duration = elapsed(started);
+  return {
+    status: status === 'ok' && duration > SLOW_PROBE_MS ? 'warn' : status,
+    duration_ms: duration,
+    detail
+  };
+}
+
+/**
+ * Checks DNS resolution, the TCP connection and the TLS handshake to the API
+ * host, each step only if the previous one succeeded. When requests go
+ * through a proxy the direct checks would not reflect reality and are skipped.
+ */
+export async function probeConnectivity(baseUrl: string, network: NetworkConfig = {}): Promise<ConnectivityDiagnostics> {
+  const url = new URL(baseUrl);
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const isHttps = url.protocol === 'https:';
+  const port = Number(url.port) || (isHttps ? 443 : 80);
+  const skipped = (detail: string): DiagnosticCheck => ({ status: 'skipped', detail });
+
+  if (usesProxy(baseUrl, network)) {
+    const proxy = new URL(network.proxyUrl!);
+    const detail = `requests go through the proxy ${proxy.host}; see the endpoint checks`;
+    return { host, port, proxy: proxy.host, dns: skipped(detail), tcp: skipped(detail), tls: skipped(detail) };
+  }
+
+  const result: ConnectivityDiagnostics = {
+    host,
+    port,
+    dns: skipped('not attempted'),
+    tcp: skipped('DNS resolution failed'),
+    tls: skipped(isHttps ? 'TCP connection failed' : 'base URL is not HTTPS')
+  };
+
+  let started = Date.now();
+  let address: string;
+  try {
+    const resolved = net.isIP(host) ? [{ address: host }] : await dns.lookup(host, { all: true });
+    const addresses = resolved.map(entry => entry.address);
+    address = addresses[0];
+    result.dns = { ...timed('ok', started, `resolved to ${addresses.join(', ')}`), addresses };
+  } catch (error) {
+    result.dns = timed('fail', started, describeError(error));
+    return result;
+  }
+
+  started = Date.now();
+  try {
+    await connectTcp(address, port);
+    result.tcp = timed('ok', started, `connected to ${address}:${port}`);
+  } catch (error) {
+    result.tcp = timed('fail', started, describeError(error));
+    return result;
+  }
+
+  if (!isHttps) {
+    return result;
+  }
+
+  started = Date.now();
+  try {
+    const socket = await connectTls(host, port, network);
+    const certificate = socket.getPeerCertificate();
+    const protocol = socket.getProtocol() ?? undefined;
+    result.tls = {
+      ...timed('ok', started, `${protocol ?? 'TLS'} handshake completed, certificate verified`),
+      protocol,
+      certificate: {
+        subject: certificate.subject?.CN,
+        issuer: certificate.issuer?.O ?? certificate.issuer?.CN,
+        valid_to: certificate.valid_to
+      }
+    };
+  } catch (error) {
+    result.tls = timed('fail', started, describeError(error));
+  }
+
+  return result;
+}
+
+/**
+ * Grades one endpoint probe. A 404 from the lookup endpoint is expected, as
+ * the probe queries a documentation address with no intelligence.
+ */
+export function gradeEndpoint(
+  endpoint: ApiEndpoint,
+  path: string,
+  started: number,
+  httpStatus?: number,
+  error?: unknown
+): EndpointDiagnostics {
+  if (httpStatus === undefined) {
+    return { endpoint, path, ...timed('fail', started, describeError(error)) };
+  }
+
+  const expected = httpStatus < 400 || (endpoint === 'lookup' && httpStatus === 404);
+  const status: DiagnosticStatus = expected ? 'ok' : httpStatus === 429 ? 'warn' : 'fail';
+  return { endpoint, path, http_status: httpStatus, ...timed(status, started, `HTTP ${httpStatus}`) };
+}
+
+export function extractRateLimitHeaders(headers: Record<string, unknown> = {}): Record<string, string> {
+  const matches: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (RATE_LIMIT_HEADER.test(name) && value !== undefined && value !== null) {
+      matches[name.toLowerCase()] = String(value);
+    }
+  }
+  return matches;
+}
+
+export function overallStatus(report: Omit<DiagnosticsReport, 'status'>): DiagnosticsReport['status'] {
+  const checks = [report.connectivity.dns, report.connectivity.tcp, report.connectivity.tls, ...report.endpoints];
+
+  if (
+    report.api_key.status === 'invalid' ||
+    report.connectivity.dns.status === 'fail' ||
+    report.endpoints.every(endpoint => endpoint.status === 'fail' || endpoint.status === 'skipped')
+  ) {
+    return 'unhealthy';
+  }
+
+  if (
+    checks.some(check => check.status === 'fail' || check.status === 'warn') ||
+    report.api_key.status !== 'valid' ||
+    (report.circuit_breaker.state !== 'closed' && report.circuit_breaker.state !== 'disabled')
+  ) {
+    return 'degraded';
+  }
+
+  return 'healthy';
+}
+
+/**
+ * One-sentence summary naming the problems found, most fundamental first.
+ */
+export function summarizeDiagnostics(report: DiagnosticsReport): string {
+  const problems: string[] = [];
+  const { connectivity } = report;
+
+  for (const [label, check] of [['DNS', connectivity.dns], ['TCP', connectivity.tcp], ['TLS', connectivity.tls]] as const) {
+    if (check.status === 'fail' || check.status === 'warn') {
+      problems.push(`${label} ${check.status === 'fail' ? 'failed' : 'slow'} (${check.detail})`);
+    }
+  }
+
+  if (report.api_key.status === 'invalid' || report.api_key.status === 'forbidden') {
+    problems.push(`API key ${report.api_key.detail}`);
+  }
+
+  for (const endpoint of report.endpoints) {
+    if (endpoint.status === 'fail' || endpoint.status === 'warn') {
+      problems.push(`GET ${endpoint.path} ${endpoint.detail} after ${endpoint.duration_ms} ms`);
+    }
+  }
+
+  if (report.circuit_breaker.state === 'open' || report.circuit_breaker.state === 'half_open') {
+    problems.push(`circuit breaker ${report.circuit_breaker.state.replace('_', '-')}`);
+  }
+
+  return problems.length > 0
+    ? `Guardian Intel connection is ${report.status}: ${problems.join('; ')}`
+    : `Guardian Intel connection is ${report.status}`;
+}
+
+const MARKS: Record<DiagnosticStatus, string> = { ok: '✓', warn: '!', fail: '✗', skipped: '-' };
+
+function line(label: string, check: DiagnosticCheck): string {
+  const duration = check.duration_ms !== undefined ? ` (${check.duration_ms} ms)` : '';
+  return `  ${MARKS[check.status]} ${label.padEnd(22)} ${check.detail ?? check.status}${duration}`;
+}
+
+/**
+ * Renders a report as plain text for logs and for people reading tool output.
+ */
+export function formatDiagnosticsReport(report: DiagnosticsReport): string {
+  const { connectivity, circuit_breaker: breaker, cache } = report;
+  const lines = [
+    `Guardian Intel diagnostics: ${report.status.toUpperCase()} at ${report.checked_at}`,
+    `  Client ${report.client_version}, base URL ${report.base_url}`,
+    line('DNS', connectivity.dns),
+    line('TCP', connectivity.tcp),
+    line('TLS', connectivity.tls)
+  ];
+
+  if (connectivity.tls.certificate?.subject) {
+    const { subject, issuer, valid_to } = connectivity.tls.certificate;
+    lines.push(`    certificate ${subject}${issuer ? ` issued by ${issuer}` : ''}${valid_to ? `, valid until ${valid_to}` : ''}`);
+  }
+
+  const keyStatus: DiagnosticStatus = report.api_key.status === 'valid' ? 'ok' : report.api_key.status === 'unknown' ? 'warn' : 'fail';
+  lines.push(line('API key', { status: keyStatus, detail: report.api_key.detail }));
+
+  for (const endpoint of report.endpoints) {
+    lines.push(line(`GET ${endpoint.path}`, endpoint));
+  }
+
+  const rateLimit = Object.entries(report.rate_limit).map(([name, value]) => `${name}=${value}`).join(', ');
+  lines.push(`  Rate limit headers: ${rateLimit || 'none reported'}`);
+
+  const breakerDetail = breaker.state === 'disabled'
+    ? 'disabled'
+    : `${breaker.state}, ${Math.round((breaker.failure_rate ?? 0) * 100)}% failures over ${breaker.recent_requests ?? 0} requests` +
+      (breaker.retry_after_seconds !== undefined ? `, retry after ${breaker.retry_after_seconds}s` : '');
+  lines.push(`  Circuit breaker: ${breakerDetail}`);
+  lines.push(`  Cache: ${cache.enabled ? `${cache.size}/${cache.capacity} entries` : 'disabled'}, queue depth ${report.queue_depth}`);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,266 @@
+import { findSpecialRange, parseIp, SpecialRangeKind } from './ip-address.js';
+import { extractIps } from './text-scan.js';
+
+export interface HeaderField {
+  name: string;
+  value: string;
+}
+
+/** One relay step, oldest first. */
+export interface EmailHop {
+  hop: number;
+  source: 'received' | 'x-originating-ip';
+  /** Name the sending side gave in HELO/EHLO, or the address literal */
+  from_host?: string;
+  /** Reverse DNS name the receiving side recorded for the connection */
+  from_rdns?: string;
+  ip?: string;
+  by_host?: string;
+  protocol?: string;
+  received_at?: string;
+  /** Special-purpose range of `ip`, for private and reserved relays */
+  range?: SpecialRangeKind;
+  /** Handled inside the receiving organisation */
+  internal: boolean;
+  /** The hop the receiving side first saw from outside; the most trustworthy sender IP */
+  first_external: boolean;
+}
+
+export interface AuthenticationResult {
+  method: string;
+  result: string;
+  properties: Record<string, string>;
+}
+
+export interface AuthenticationResults {
+  authserv_id: string;
+  results: AuthenticationResult[];
+}
+
+export interface ParsedEmailHeaders {
+  hops: EmailHop[];
+  authentication: AuthenticationResults[];
+  /** Domains the hops were matched against to tell internal from external */
+  internal_domains: string[];
+}
+
+/**
+ * Splits a header block into fields, unfolding continuation lines. Parsing
+ * stops at the first empty line, so a pasted message body is ignored.
+ */
+export function parseHeaderFields(text: string): HeaderField[] {
+  const fields: HeaderField[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trim() === '') {
+      if (fields.length > 0) {
+        break;
+      }
+      continue;
+    }
+
+    if (/^[ \t]/.test(line) && fields.length > 0) {
+      fields[fields.length - 1].value += ` ${line.trim()}`;
+      continue;
+    }
+
+    const colon = line.indexOf(':');
+    if (colon > 0 && /^[!-9;-~]+$/.test(line.slice(0, colon))) {
+      fields.push({ name: line.slice(0, colon), value: line.slice(colon + 1).trim() });
+    }
+  }
+
+  return fields;
+}
+
+/** Removes RFC 5322 comments (nested parentheses) and returns them separately. */
+function splitComments(value: string): { text: string; comments: string[] } {
+  const comments: string[] = [];
+  let text = '';
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === '(') {
+      if (depth > 0) {
+        current += char;
+      }
+      depth++;
+    } else if (char === ')' && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        comments.push(current.trim());
+        current = '';
+        text += ' ';
+      } else {
+        current += char;
+      }
+    } else if (depth > 0) {
+      current += char;
+    } else {
+      text += char;
+    }
+  }
+
+  return { text: text.replace(/\s+/g, ' ').trim(), comments };
+}
+
+function firstIp(text: string): string | undefined {
+  // Address literals: [192.0.2.1] or [IPv6:2001:db8::1]
+  for (const match of text.matchAll(/\[(?:IPv6:)?([0-9A-Fa-f:.]+)\]/gi)) {
+    const parsed = parseIp(match[1]);
+    if (parsed) {
+      return parsed.address;
+    }
+  }
+  return extractIps(text)[0]?.ip;
+}
+
+type ReceivedHop = Omit<EmailHop, 'hop' | 'internal' | 'first_external'>;
+
+/**
+ * Parses one Received header, e.g.
+ * `from mail.example.org (mail.example.org [192.0.2.1]) by mx.example.com with ESMTPS id abc; Tue, 1 Oct 2024 10:00:00 +0000`.
+ */
+export function parseReceived(value: string): ReceivedHop {
+  const semicolon = value.lastIndexOf(';');
+  const clauses = semicolon >= 0 ? value.slice(0, semicolon) : value;
+  const date = semicolon >= 0 ? Date.parse(splitComments(value.slice(semicolon + 1)).text) : NaN;
+
+  // The "from" clause runs up to " by ", including its comment with the rDNS name and IP
+  const fromClause = clauses.match(/^\s*from\s+([\s\S]*?)(?:\s+by\s+|$)/i)?.[1];
+  const { text } = splitComments(clauses);
+
+  const hop: ReceivedHop = {
+    source: 'received',
+    by_host: text.match(/\bby\s+([^\s;]+)/i)?.[1],
+    protocol: text.match(/\bwith\s+([^\s;]+)/i)?.[1],
+    received_at: Number.isNaN(date) ? undefined : new Date(date).toISOString()
+  };
+
+  if (fromClause !== undefined) {
+    const from = splitComments(fromClause);
+    const helo = from.text.split(' ')[0];
+    hop.from_host = helo.replace(/^\[(?:IPv6:)?|\]$/gi, '') || undefined;
+    // The address comes from the TCP-info comment the receiving server wrote,
+    // never from the HELO name (the sender picks that, address literals too).
+    // Exim writes "[ip] (helo=name)" when it has no rDNS, so there the leading
+    // token is the recorded address.
+    const recorded = from.comments.map(comment => comment.replace(/\bhelo[=\s]\s*\S+/gi, '')).join(' ');
+    const eximStyle = from.comments.some(comment => /\bhelo=/i.test(comment));
+    hop.ip = firstIp(recorded) ?? (eximStyle ? firstIp(from.text) : undefined);
+
+    const rdns = from.comments
+      .map(comment => comment.match(/^([A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+)\.?(?:\s|$)/)?.[1])
+      .find(name => name !== undefined && !parseIp(name));
+    hop.from_rdns = rdns;
+  }
+
+  return hop;
+}
+
+/**
+ * Parses an Authentication-Results header:
+ * `mx.example.com; spf=pass smtp.mailfrom=example.org; dkim=fail header.d=example.org`.
+ */
+export function parseAuthenticationResults(value: string): AuthenticationResults {
+  const [authservId, ...parts] = splitComments(value).text.split(';').map(part => part.trim());
+  const results: AuthenticationResult[] = [];
+
+  for (const part of parts) {
+    const [head, ...properties] = part.split(/\s+/);
+    const [method, result] = head.split('=');
+    if (!method || !result) {
+      continue;
+    }
+
+    results.push({
+      method: method.toLowerCase(),
+      result: result.toLowerCase(),
+      properties: Object.fromEntries(
+        properties
+          .map(property => property.split('='))
+          .filter(pair => pair.length === 2)
+          .map(([name, propertyValue]) => [name.toLowerCase(), propertyValue])
+      )
+    });
+  }
+
+  return { authserv_id: authservId.split(/\s+/)[0], results };
+}
+
+/**
+ * Approximates the organisation's domain as the last two labels of a host
+ * name, or three when the second-level label is a common public suffix
+ * part such as co.uk.
+ */
+export function organisationDomain(host: string | undefined): string | undefined {
+  if (!host || parseIp(host.replace(/^\[|\]$/g, ''))) {
+    return undefined;
+  }
+
+  const labels = host.toLowerCase().replace(/\.$/, '').split('.');
+  if (labels.length < 2) {
+    return undefined;
+  }
+
+  const keep = labels.length > 2 && /^(?:co|com|net|org|ac|gov|edu)$/.test(labels[labels.length - 2]) ? 3 : 2;
+  return labels.slice(-keep).join('.');
+}
+
+const isWithin = (host: string | undefined, domains: string[]) =>
+  !!host && domains.some(domain => host.toLowerCase() === domain || host.toLowerCase().endsWith(`.${domain}`));
+
+/**
+ * Builds the hop chain from a header block, oldest hop first. Received
+ * headers are prepended by each relay, so they are read bottom-up. Walking
+ * back from the newest hop, relays in private ranges or whose reverse DNS,
+ * as recorded by the receiving relay, is inside `internalDomains` (by default
+ * the domain of the final receiving host) are internal. The HELO name is
+ * chosen by the sender and never counts. The first other hop is where the
+ * message entered the receiving side. Anything older than that hop was
+ * recorded by servers the recipient does not control.
+ */
+export function parseEmailHeaders(text: string, internalDomains: string[] = []): ParsedEmailHeaders {
+  const fields = parseHeaderFields(text);
+  const named = (name: string) => fields.filter(field => field.name.toLowerCase() === name);
+
+  const received = named('received').map(field => parseReceived(field.value)).reverse();
+  const originating = named('x-originating-ip')
+    .map(field => firstIp(field.value))
+    .filter((ip): ip is string => ip !== undefined);
+
+  const chain: ReceivedHop[] = [
+    ...originating.map(ip => ({ source: 'x-originating-ip' as const, ip })),
+    ...received
+  ];
+
+  const finalHost = received[received.length - 1]?.by_host;
+  const domains = internalDomains.length > 0
+    ? internalDomains.map(domain => domain.toLowerCase())
+    : [organisationDomain(finalHost)].filter((domain): domain is string => domain !== undefined);
+
+  const hops: EmailHop[] = chain.map((hop, index) => {
+    const parsed = hop.ip ? parseIp(hop.ip) : null;
+    const range = parsed ? findSpecialRange(parsed)?.kind : undefined;
+    return { hop: index + 1, ...hop, range, internal: false, first_external: false };
+  });
+
+  for (let index = hops.length - 1; index >= 0; index--) {
+    const hop = hops[index];
+    if (hop.source !== 'received') {
+      continue;
+    }
+    if (hop.ip && hop.range === undefined && !isWithin(hop.from_rdns, domains)) {
+      hop.first_external = true;
+      break;
+    }
+    hop.internal = true;
+  }
+
+  return {
+    hops,
+    authentication: named('authentication-results').map(field => parseAuthenticationResults(field.value)),
+    internal_domains: domains
+  };
+}
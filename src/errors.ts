@@ -0,0 +1,97 @@
+import { ApiEndpoint } from './types.js';
+
+export interface GuardianIntelErrorDetails {
+  status?: number;
+  endpoint?: ApiEndpoint;
+  upstreamCode?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error raised by GuardianIntelClient. Callers should
+ * branch on the subclass rather than on the message text.
+ */
+export class GuardianIntelError extends Error {
+  readonly status?: number;
+  readonly endpoint?: ApiEndpoint;
+  readonly upstreamCode?: string;
+  attempts = 1;
+
+  constructor(message: string, details: GuardianIntelErrorDetails = {}) {
+    super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+    this.upstreamCode = details.upstreamCode;
+  }
+}
+
+/** 401 - the API key is missing, invalid or expired. */
+export class AuthenticationError extends GuardianIntelError {}
+
+/** 403 - the API key is valid but lacks permission for the resource. */
+export class ForbiddenError extends GuardianIntelError {}
+
+/** 404 - the IP address or tag is unknown to Guardian Intel. */
+export class NotFoundError extends GuardianIntelError {}
+
+/** 429 - the upstream rate limit was hit. */
+export class RateLimitError extends GuardianIntelError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: GuardianIntelErrorDetails & { retryAfterMs?: number } = {}) {
+    super(message, details);
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/** 5xx - the upstream failed or is temporarily unavailable. */
+export class UpstreamUnavailableError extends GuardianIntelError {}
+
+/** The request did not complete within the configured timeout. */
+export class RequestTimeoutError extends GuardianIntelError {}
+
+/** The caller cancelled the request through its AbortSignal before it completed. */
+export class RequestAbortedError extends GuardianIntelError {}
+
+/** The API could not be reached at all (DNS, connection refused, reset). */
+export class NetworkError extends GuardianIntelError {}
+
+/** The input was rejected, either locally before sending or by the API (400/422). */
+export class ValidationError extends GuardianIntelError {}
+
+/** The API answered, but the payload did not have the expected shape. */
+export class MalformedResponseError extends GuardianIntelError {
+  /** Dotted path of the offending field, e.g. "result.asn.countryCode" */
+  readonly path?: string;
+
+  constructor(message: string, details: GuardianIntelErrorDetails & { path?: string } = {}) {
+    super(message, details);
+    this.path = details.path;
+  }
+}
+
+/** The circuit breaker is open after repeated upstream failures; no request was sent. */
+export class CircuitOpenError extends GuardianIntelError {
+  readonly retryAfterMs: number;
+
+  constructor(message: string, details: GuardianIntelErrorDetails & { retryAfterMs: number }) {
+    super(message, details);
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/** A bulk or export operation was refused because the remaining quota is below the soft limit. */
+export class QuotaThresholdError extends GuardianIntelError {
+  readonly remaining: number;
+  readonly softLimit: number;
+
+  constructor(message: string, details: GuardianIntelErrorDetails & { remaining: number; softLimit: number }) {
+    super(message, details);
+    this.remaining = details.remaining;
+    this.softLimit = details.softLimit;
+  }
+}
+
+/** Cassette replay is strict and has no recorded response for the request. */
+export class CassetteMissError extends GuardianIntelError {}
@@ -1,15 +1,116 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { lookupSchema, tagDetailsSchema, tagIpsSchema, tagsSchema } from './api-schemas.js';
+import { TtlCache } from './cache.js';
+import { createCassetteAdapter } from './cassette.js';
 import {
+  CircuitBreaker,
+  CircuitBreakerSnapshot,
+  DEFAULT_CIRCUIT_BREAKER_POLICY,
+  toCircuitBreakerStatus
+} from './circuit-breaker.js';
+import { RequestCoalescer } from './coalescer.js';
+import {
+  extractRateLimitHeaders,
+  gradeEndpoint,
+  overallStatus,
+  probeConnectivity,
+  PROBE_TIMEOUT_MS
+} from './diagnostics.js';
+import { ClientHooks, combineHooks, redactParams, RequestEvent, RequestMetrics, RequestMetricsSnapshot } from './instrumentation.js';
+import { normalizeIp } from './ip-address.js';
+import { createTransportConfig } from './network.js';
+import { DEFAULT_RATE_LIMIT_POLICY, getSharedRateLimiter, RateLimiter } from './rate-limiter.js';
+import {
+  AuthenticationError,
+  ForbiddenError,
+  GuardianIntelError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  UpstreamUnavailableError,
+  ValidationError
+} from './errors.js';
+import { DEFAULT_RETRY_POLICY, getRetryAfterMs, RetryPolicy, sleep, withRetry } from './retry.js';
+import { DEFAULT_QUOTA_POLICY, QuotaTracker } from './quota.js';
+import { parseResponse } from './schema.js';
+import {
+  ApiEndpoint,
+  BulkLookupError,
+  BulkLookupOptions,
+  BulkLookupResponse,
+  CacheStats,
+  CacheConfig,
+  CacheStatus,
+  DiagnosticsReport,
+  EndpointDiagnostics,
   GuardianIntelConfig,
   LookupResponse,
+  RequestOptions,
   TagsListResponse,
   TagDetailsResponse,
-  TagIpsResponse
+  TagIpsCollection,
+  TagIpsIterationOptions,
+  TagIpsOptions,
+  TagIpsResponse,
+  FetchAllTagIpsOptions,
+  NetworkConfig,
+  QuotaStatus
 } from './types.js';
 
+const DEFAULT_CACHE_CONFIG: Required<CacheConfig> = {
+  enabled: true,
+  maxEntries: 1000,
+  lookupTtlMs: 5 * 60 * 1000,
+  tagsTtlMs: 60 * 60 * 1000,
+  tagDetailsTtlMs: 60 * 60 * 1000
+};
+
+/**
+ * Errors that indicate the upstream itself is unhealthy, as opposed to a
+ * problem with the request. Only these count towards the circuit breaker.
+ */
+const isUpstreamFailure = (error: unknown): boolean =>
+  error instanceof UpstreamUnavailableError ||
+  error instanceof RequestTimeoutError ||
+  error instanceof NetworkError;
+
+/**
+ * Errors raised without an answer from the upstream, such as a caller abort
+ * or a cassette miss. They neither open nor close the circuit breaker.
+ */
+const isLocalFailure = (error: unknown): boolean =>
+  !isUpstreamFailure(error) && !(error instanceof GuardianIntelError && error.status !== undefined);
+
+/** Cancellation as reported by axios (CanceledError) or by an aborted signal */
+const isAbortError = (error: unknown): boolean =>
+  (error as { code?: string } | undefined)?.code === 'ERR_CANCELED' ||
+  (error as { name?: string } | undefined)?.name === 'AbortError';
+
+export const CLIENT_VERSION = '1.0.0';
+
+/** Documentation address (RFC 5737) used to probe the lookup endpoint */
+const PROBE_IP = '192.0.2.1';
+
+const MAX_TAG_IPS_PAGE_SIZE = 10000;
+const DEFAULT_MAX_TAG_ENTRIES = 100000;
+const DEFAULT_BULK_CONCURRENCY = 5;
+const MAX_BULK_CONCURRENCY = 20;
+
 export class GuardianIntelClient {
   private client: AxiosInstance;
   private readonly baseUrl: string;
+  private readonly network?: NetworkConfig;
+  private readonly cacheConfig: Required<CacheConfig>;
+  private readonly cache?: TtlCache<object>;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly rateLimiter?: RateLimiter;
+  private readonly coalescer = new RequestCoalescer();
+  private readonly circuitBreaker?: CircuitBreaker;
+  private readonly quota: QuotaTracker;
+  private readonly metrics = new RequestMetrics();
+  private readonly hooks: ClientHooks;
 
   constructor(config: GuardianIntelConfig) {
     if (!config.apiKey || config.apiKey.trim().length === 0) {
@@ -17,28 +118,214 @@ export class GuardianIntelClient {
     }
     
     this.baseUrl = config.baseUrl || 'https://threat-intel-api.abusix.com/beta';
+    this.network = config.network;
+    this.cacheConfig = { ...DEFAULT_CACHE_CONFIG, ...config.cache };
+
+    if (this.cacheConfig.enabled) {
+      this.cache = new TtlCache(this.cacheConfig.maxEntries);
+    }
+
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.retry };
+
+    const { enabled: rateLimitEnabled = true, ...rateLimitPolicy } = config.rateLimit || {};
+    if (rateLimitEnabled) {
+      this.rateLimiter = getSharedRateLimiter(config.apiKey, { ...DEFAULT_RATE_LIMIT_POLICY, ...rateLimitPolicy });
+    }
+
+    this.quota = new QuotaTracker({ ...DEFAULT_QUOTA_POLICY, ...config.quota });
+
+    // Built-in metrics are just another subscriber, called before the caller's hooks
+    this.hooks = combineHooks(this.metrics.hooks, config.hooks);
+
+    const { enabled: breakerEnabled = true, ...breakerPolicy } = config.circuitBreaker || {};
+    if (breakerEnabled) {
+      this.circuitBreaker = new CircuitBreaker(
+        { ...DEFAULT_CIRCUIT_BREAKER_POLICY, ...breakerPolicy },
+        config.onCircuitStateChange
+      );
+    }
     
     this.client = axios.create({
       baseURL: this.baseUrl,
       headers: {
         'x-api-key': `${config.apiKey}`,
         'Content-Type': 'application/json',
-        'User-Agent': '@abusix/guardian-intel-mcp-server/1.0.0'
+        'User-Agent': `@abusix/guardian-intel-mcp-server/${CLIENT_VERSION}`
       },
-      timeout: 30000
+      timeout: 30000,
+      ...createTransportConfig(this.baseUrl, this.network),
+      ...(config.cassette ? { adapter: createCassetteAdapter(config.cassette) } : {})
     });
+  }
+
+  getCircuitBreakerState(): CircuitBreakerSnapshot | undefined {
+    return this.circuitBreaker?.getSnapshot();
+  }
+
+  getCacheStats(): CacheStats {
+    return {
+      enabled: this.cache !== undefined,
+      size: this.cache?.size ?? 0,
+      capacity: this.cache?.capacity ?? 0
+    };
+  }
+
+  /**
+   * Request, cache hit, retry and error counts per endpoint since the client
+   * was created.
+   */
+  getMetrics(): RequestMetricsSnapshot {
+    return this.metrics.snapshot();
+  }
+
+  /**
+   * Remaining allowance as last reported by the API, or undefined if no
+   * response carried quota headers (or the reported window has reset).
+   */
+  getQuotaStatus(): QuotaStatus | undefined {
+    return this.quota.getStatus();
+  }
+
+  /**
+   * Throws a QuotaThresholdError when an operation needing `cost` requests
+   * would take the remaining quota below the configured soft limit.
+   */
+  assertQuotaAvailable(operation: string, cost?: number): void {
+    this.quota.assertAvailable(operation, cost);
+  }
+
+  /**
+   * Sends one cheap request so the quota headers are current.
+   */
+  async refreshQuota(signal?: AbortSignal): Promise<QuotaStatus | undefined> {
+    await this.get('tags', '/tags', { params: { limit: '1' } }, signal);
+    return this.getQuotaStatus();
+  }
 
-    this.client.interceptors.response.use(
-      (response) => response,
-      (error: AxiosError) => {
-        throw this.handleApiError(error);
+  /**
+   * Number of requests waiting for the client-side rate limiter.
+   */
+  getQueueDepth(): number {
+    return this.rateLimiter?.queueDepth ?? 0;
+  }
+
+  /**
+   * Issues a GET request through the rate limiter, retrying transient failures
+   * according to the configured retry policy, and converts the final failure
+   * into an API error. Every attempt takes its own rate limit slot. Identical
+   * requests already in flight share a single HTTP call, which is aborted
+   * only once every caller waiting on it has cancelled.
+   */
+  private async get(
+    endpoint: ApiEndpoint,
+    path: string,
+    config: AxiosRequestConfig = {},
+    callerSignal?: AbortSignal
+  ): Promise<AxiosResponse> {
+    const key = RequestCoalescer.key('GET', path, config.params);
+    const event: RequestEvent = { endpoint, method: 'GET', path, params: redactParams(config.params), attempt: 0, cacheHit: false };
+
+    try {
+      return await this.coalescer.run(key, (signal) => {
+        const request = async () => {
+          let attempts = 0;
+          let startedAt = 0;
+          let failure: { error: AxiosError; durationMs: number } | undefined;
+
+          const send = () => {
+            startedAt = Date.now();
+            this.hooks.onRequest?.({ ...event, attempt: attempts });
+
+            return this.client.get(path, { ...config, signal }).then(
+              (response) => {
+                this.quota.update(response.headers);
+                this.hooks.onResponse?.({
+                  ...event,
+                  attempt: attempts,
+                  status: response.status,
+                  durationMs: Date.now() - startedAt
+                });
+                return response;
+              },
+              (error) => {
+                this.quota.update(error?.response?.headers);
+                failure = { error, durationMs: Date.now() - startedAt };
+                throw error;
+              }
+            );
+          };
+
+          // withRetry only waits when it is about to retry, so this is where onRetry fires
+          const wait = (delayMs: number, waitSignal?: AbortSignal) => {
+            if (failure) {
+              const error = this.convertApiError(failure.error, endpoint);
+              this.hooks.onRetry?.({
+                ...event,
+                attempt: attempts,
+                status: error.status,
+                durationMs: failure.durationMs,
+                delayMs,
+                error
+              });
+            }
+            return sleep(delayMs, waitSignal);
+          };
+
+          try {
+            return await withRetry(() => {
+              attempts++;
+              failure = undefined;
+              return this.rateLimiter ? this.rateLimiter.schedule(send, signal) : send();
+            }, this.retryPolicy, wait, signal);
+          } catch (error) {
+            const converted = this.handleApiError(error as AxiosError, endpoint, attempts);
+            this.hooks.onError?.({
+              ...event,
+              attempt: attempts,
+              status: converted.status,
+              durationMs: failure?.durationMs ?? 0,
+              error: converted
+            });
+            throw converted;
+          }
+        };
+
+        return this.circuitBreaker
+          ? this.circuitBreaker.execute(request, isUpstreamFailure, isLocalFailure)
+          : request();
+      }, callerSignal);
+    } catch (error) {
+      if (callerSignal?.aborted && !(error instanceof RequestAbortedError)) {
+        throw new RequestAbortedError('Guardian Intel API request was cancelled', { endpoint, cause: error });
       }
-    );
+      throw error;
+    }
   }
 
-  private handleApiError(error: AxiosError): Error {
+  private handleApiError(error: AxiosError, endpoint: ApiEndpoint, attempts = 1): GuardianIntelError {
+    const converted = this.convertApiError(error, endpoint);
+    converted.attempts = attempts;
+
+    if (attempts > 1) {
+      converted.message += ` (after ${attempts} attempts)`;
+    }
+
+    return converted;
+  }
+
+  private convertApiError(error: AxiosError, endpoint: ApiEndpoint): GuardianIntelError {
+    if (error instanceof GuardianIntelError) {
+      return error;
+    }
+
+    if (isAbortError(error)) {
+      return new RequestAbortedError('Guardian Intel API request was cancelled', { endpoint, cause: error });
+    }
+
     const status = error.response?.status;
     const statusText = error.response?.statusText;
+    let message: string | undefined;
+    let upstreamCode: string | undefined;
     
     if (error.response?.data) {
       const apiError = error.response.data as Record<string, unknown>;
@@ -53,172 +340,444 @@ export class GuardianIntelClient {
         'Unknown API error';
         
       const errorCode = apiError.statusCode || apiError.code || status || 'Unknown';
+
+      if (typeof apiError.code === 'string' || typeof apiError.code === 'number') {
+        upstreamCode = String(apiError.code);
+      }
       
-      return new Error(`Guardian Intel API Error (${errorCode}): ${errorMessage}`);
+      message = `Guardian Intel API Error (${errorCode}): ${errorMessage}`;
     }
     
     // Handle specific HTTP status codes
     if (status) {
+      const details = { status, endpoint, upstreamCode, cause: error };
+
       switch (status) {
+        case 400:
+        case 422:
+          return new ValidationError(message ?? `Guardian Intel API Error (${status}): ${statusText || 'Invalid request'}`, details);
         case 401:
-          return new Error(`Guardian Intel API Error (401): Invalid or missing API key`);
+          return new AuthenticationError(message ?? `Guardian Intel API Error (401): Invalid or missing API key`, details);
         case 403:
-          return new Error(`Guardian Intel API Error (403): Access forbidden - check API key permissions`);
+          return new ForbiddenError(message ?? `Guardian Intel API Error (403): Access forbidden - check API key permissions`, details);
         case 404:
-          return new Error(`Guardian Intel API Error (404): Resource not found`);
+          return new NotFoundError(message ?? `Guardian Intel API Error (404): Resource not found`, details);
         case 429:
-          return new Error(`Guardian Intel API Error (429): Rate limit exceeded`);
+          return new RateLimitError(message ?? `Guardian Intel API Error (429): Rate limit exceeded`, {
+            ...details,
+            retryAfterMs: getRetryAfterMs(error)
+          });
         case 500:
-          return new Error(`Guardian Intel API Error (500): Internal server error`);
+          return new UpstreamUnavailableError(message ?? `Guardian Intel API Error (500): Internal server error`, details);
         case 503:
-          return new Error(`Guardian Intel API Error (503): Service temporarily unavailable`);
+          return new UpstreamUnavailableError(message ?? `Guardian Intel API Error (503): Service temporarily unavailable`, details);
         default:
-          return new Error(`Guardian Intel API Error (${status}): ${statusText || 'HTTP error'}`);
+          message = message ?? `Guardian Intel API Error (${status}): ${statusText || 'HTTP error'}`;
+          return status >= 500
+            ? new UpstreamUnavailableError(message, details)
+            : new GuardianIntelError(message, details);
       }
     }
     
-    if (error.code === 'ECONNABORTED') {
-      return new Error('Guardian Intel API request timeout');
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new RequestTimeoutError('Guardian Intel API request timeout', { endpoint, cause: error });
     }
     
-    if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
-      return new Error('Unable to connect to Guardian Intel API');
+    if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED' || error.code === 'ECONNRESET' || error.code === 'EAI_AGAIN') {
+      return new NetworkError('Unable to connect to Guardian Intel API', { endpoint, cause: error });
     }
     
-    return new Error(`Guardian Intel API Error: ${error.message}`);
+    return new GuardianIntelError(`Guardian Intel API Error: ${error.message}`, { endpoint, cause: error });
+  }
+
+  /**
+   * Serves a result from the in-memory cache when possible, otherwise fetches
+   * and stores it. `fresh` skips the read but still refreshes the entry.
+   * Cache hits are reported to the hooks as `target` with `cacheHit` set.
+   */
+  private async withCache<T extends object>(
+    key: string,
+    ttlMs: number,
+    options: RequestOptions,
+    target: { endpoint: ApiEndpoint; path: string; params?: Record<string, string> },
+    fetch: () => Promise<T>
+  ): Promise<T & { cache: CacheStatus }> {
+    if (this.cache && !options.fresh) {
+      const cached = this.cache.get(key);
+      if (cached) {
+        const event: RequestEvent = { ...target, method: 'GET', params: redactParams(target.params), attempt: 0, cacheHit: true };
+        this.hooks.onRequest?.(event);
+        this.hooks.onResponse?.({ ...event, durationMs: 0 });
+        return {
+          ...(cached.value as T),
+          cache: { hit: true, age_seconds: Math.floor(cached.ageMs / 1000) }
+        };
+      }
+    }
+
+    const value = await fetch();
+    this.cache?.set(key, value, ttlMs);
+    return { ...value, cache: { hit: false, age_seconds: 0 } };
   }
 
-  private isValidIpAddress(ip: string): boolean {
-    const ipv4Regex = /^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/;
-    const ipv6Regex = /^(?:[0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}$|^::1$|^::$/;
-    return ipv4Regex.test(ip) || ipv6Regex.test(ip);
+  clearCache(): void {
+    this.cache?.clear();
   }
 
-  async lookupIp(ip: string): Promise<LookupResponse> {
-    if (!this.isValidIpAddress(ip)) {
-      throw new Error('Invalid IP address format');
+  async lookupIp(ip: string, options: RequestOptions = {}): Promise<LookupResponse> {
+    // Look up and cache by canonical form so equivalent spellings share one entry
+    const address = normalizeIp(ip);
+    if (!address) {
+      throw new ValidationError('Invalid IP address format', { endpoint: 'lookup' });
     }
 
-    try {
-      const response = await this.client.get(`/query/${encodeURIComponent(ip)}`);
-      // Extract the result from the API wrapper
-      if (response.data?.result) {
-        return {
-          ip: response.data.result.item,
-          tags: response.data.result.tags,
-          confidence: response.data.result.intent === 'malicious' ? 'high' : response.data.result.intent === 'suspicious' ? 'medium' : 'low',
-          threat_level: response.data.result.intent,
-          first_seen: response.data.result.firstSeen,
-          last_seen: response.data.result.lastSeen,
-          asn: response.data.result.asn,
-          abuse_contact: response.data.result.abuseContact,
-          observed_activity: response.data.result.observedActivity
-        };
+    return this.withCache(
+      `lookup:${address}`,
+      this.cacheConfig.lookupTtlMs,
+      options,
+      { endpoint: 'lookup', path: `/query/${encodeURIComponent(address)}` },
+      () => this.fetchLookup(address, options.signal)
+    );
+  }
+
+  private async fetchLookup(ip: string, signal?: AbortSignal): Promise<LookupResponse> {
+    const response = await this.get('lookup', `/query/${encodeURIComponent(ip)}`, {}, signal);
+    const { result } = parseResponse(lookupSchema, response.data, 'lookup');
+
+    return {
+      ip: result.item,
+      tags: result.tags,
+      confidence: result.intent === 'malicious' ? 'high' : result.intent === 'suspicious' ? 'medium' : 'low',
+      threat_level: result.intent,
+      first_seen: result.firstSeen,
+      last_seen: result.lastSeen,
+      asn: result.asn,
+      abuse_contact: result.abuseContact,
+      observed_activity: result.observedActivity,
+      extra: result.extra
+    };
+  }
+
+  /**
+   * Looks up many addresses at once. Inputs are canonicalized and
+   * deduplicated; a failing address is reported in `errors` instead of
+   * failing the whole batch. Aborting `options.signal` stops starting new
+   * lookups and rejects with a RequestAbortedError.
+   */
+  async lookupIps(ips: string[], options: BulkLookupOptions = {}): Promise<BulkLookupResponse> {
+    const concurrency = Math.min(Math.max(1, Math.floor(options.concurrency ?? DEFAULT_BULK_CONCURRENCY)), MAX_BULK_CONCURRENCY);
+    const errors: BulkLookupError[] = [];
+    const addresses: string[] = [];
+    const seen = new Set<string>();
+
+    for (const ip of ips) {
+      const address = normalizeIp(ip);
+      if (!address) {
+        errors.push({ ip: String(ip), error: 'Invalid IP address format', type: 'ValidationError' });
+      } else if (!seen.has(address)) {
+        seen.add(address);
+        addresses.push(address);
       }
-      throw new Error('Invalid response format from Guardian Intel API');
-    } catch (error) {
-      throw error;
     }
-  }
 
-  async getTags(includeDescriptions = false): Promise<TagsListResponse> {
-    try {
-      const params = includeDescriptions ? { includeDescriptions: 'true' } : {};
-      const response = await this.client.get('/tags', { params });
-      // Extract the result from the API wrapper
-      if (response.data?.result && Array.isArray(response.data.result)) {
-        return {
-          tags: response.data.result.map((tag: { name: string }) => tag.name),
-          tag_details: includeDescriptions ? response.data.result : undefined
-        };
+    if (!options.force) {
+      // Cached addresses cost nothing, so this is an upper bound
+      this.quota.assertAvailable('bulk lookup', addresses.length);
+    }
+
+    const results: Array<LookupResponse | undefined> = new Array(addresses.length);
+    const failures: Array<BulkLookupError | undefined> = new Array(addresses.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < addresses.length && !options.signal?.aborted) {
+        const index = next++;
+        try {
+          results[index] = await this.lookupIp(addresses[index], { fresh: options.fresh, signal: options.signal });
+        } catch (error) {
+          failures[index] = {
+            ip: addresses[index],
+            error: error instanceof Error ? error.message : String(error),
+            type: error instanceof Error ? error.name : 'Error',
+            status: error instanceof GuardianIntelError ? error.status : undefined
+          };
+        }
       }
-      throw new Error('Invalid response format from Guardian Intel API');
-    } catch (error) {
-      throw error;
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, addresses.length) }, worker));
+
+    if (options.signal?.aborted) {
+      throw new RequestAbortedError(
+        `Bulk lookup was cancelled after ${results.filter(Boolean).length} of ${addresses.length} address(es)`,
+        { endpoint: 'lookup', cause: options.signal.reason }
+      );
     }
+
+    return {
+      results: results.filter((result): result is LookupResponse => result !== undefined),
+      errors: [...errors, ...failures.filter((failure): failure is BulkLookupError => failure !== undefined)],
+      requested: ips.length,
+      unique: addresses.length
+    };
   }
 
-  async getTagDetails(tagName: string): Promise<TagDetailsResponse> {
+  async getTags(includeDescriptions = false, options: RequestOptions = {}): Promise<TagsListResponse> {
+    return this.withCache(
+      `tags:${includeDescriptions ? 'full' : 'names'}`,
+      this.cacheConfig.tagsTtlMs,
+      options,
+      { endpoint: 'tags', path: '/tags', params: includeDescriptions ? { includeDescriptions: 'true' } : {} },
+      () => this.fetchTags(includeDescriptions, options.signal)
+    );
+  }
+
+  private async fetchTags(includeDescriptions: boolean, signal?: AbortSignal): Promise<TagsListResponse> {
+    const params = includeDescriptions ? { includeDescriptions: 'true' } : {};
+    const response = await this.get('tags', '/tags', { params }, signal);
+    const { result } = parseResponse(tagsSchema, response.data, 'tags');
+
+    return {
+      tags: result.map(tag => tag.name),
+      tag_details: includeDescriptions ? result : undefined
+    };
+  }
+
+  async getTagDetails(tagName: string, options: RequestOptions = {}): Promise<TagDetailsResponse> {
     if (!tagName || tagName.trim().length === 0) {
-      throw new Error('Tag name is required');
+      throw new ValidationError('Tag name is required', { endpoint: 'tag_details' });
     }
 
-    try {
-      const response = await this.client.get(`/tags/${encodeURIComponent(tagName)}`);
-      // Extract the result from the API wrapper
-      if (response.data?.result) {
-        return {
-          tag: response.data.result.name,
-          description: response.data.result.description,
-          category: response.data.result.category,
-          confidence: response.data.result.intent === 'malicious' ? 'high' : response.data.result.intent === 'suspicious' ? 'medium' : 'low',
-          intent: response.data.result.intent
-        };
-      }
-      throw new Error('Invalid response format from Guardian Intel API');
-    } catch (error) {
-      throw error;
-    }
+    return this.withCache(
+      `tag:${tagName}`,
+      this.cacheConfig.tagDetailsTtlMs,
+      options,
+      { endpoint: 'tag_details', path: `/tags/${encodeURIComponent(tagName)}` },
+      () => this.fetchTagDetails(tagName, options.signal)
+    );
+  }
+
+  private async fetchTagDetails(tagName: string, signal?: AbortSignal): Promise<TagDetailsResponse> {
+    const response = await this.get('tag_details', `/tags/${encodeURIComponent(tagName)}`, {}, signal);
+    const { result } = parseResponse(tagDetailsSchema, response.data, 'tag_details');
+
+    return {
+      tag: result.name,
+      description: result.description,
+      category: result.category,
+      confidence: result.intent === 'malicious' ? 'high' : result.intent === 'suspicious' ? 'medium' : 'low',
+      intent: result.intent,
+      extra: result.extra
+    };
   }
 
   async getTagIps(
     tagName: string, 
-    options: {
-      offset?: number;
-      limit?: number;
-      snapshot?: string;
-    } = {}
+    options: TagIpsOptions = {}
   ): Promise<TagIpsResponse> {
     if (!tagName || tagName.trim().length === 0) {
-      throw new Error('Tag name is required');
+      throw new ValidationError('Tag name is required', { endpoint: 'tag_ips' });
     }
 
-    const { offset = 0, limit = 1000, snapshot } = options;
+    const { offset = 0, limit = 1000, snapshot, signal } = options;
 
-    if (limit > 10000) {
-      throw new Error('Limit cannot exceed 10,000');
+    if (limit > MAX_TAG_IPS_PAGE_SIZE) {
+      throw new ValidationError('Limit cannot exceed 10,000', { endpoint: 'tag_ips' });
     }
 
     if (offset < 0 || limit < 1) {
-      throw new Error('Offset must be non-negative and limit must be positive');
+      throw new ValidationError('Offset must be non-negative and limit must be positive', { endpoint: 'tag_ips' });
     }
 
-    try {
-      const params: Record<string, string> = {
-        offset: offset.toString(),
-        limit: limit.toString()
-      };
+    const params: Record<string, string> = {
+      offset: offset.toString(),
+      limit: limit.toString()
+    };
 
-      if (snapshot) {
-        params.snapshot = snapshot;
+    if (snapshot) {
+      params.snapshot = snapshot;
+    }
+
+    const response = await this.get(
+      'tag_ips',
+      `/tags/${encodeURIComponent(tagName)}/ips`,
+      { params },
+      signal
+    );
+    const { result } = parseResponse(tagIpsSchema, response.data, 'tag_ips');
+
+    return {
+      tag: result.tag || tagName,
+      total: result.total,
+      offset: result.offset || offset,
+      limit: result.limit || limit,
+      snapshot: result.snapshot || snapshot,
+      ips: result.entries || [],
+      extra: result.extra
+    };
+  }
+
+  /**
+   * Walks every page of a tag's IP list. The snapshot returned with the first
+   * page is pinned for the rest of the walk so pages stay consistent. The walk
+   * ends on an empty page, once the latest reported total is reached, or on a
+   * short page when the API reports no total. Aborting `options.signal` ends
+   * it with a RequestAbortedError before the next page is requested.
+   */
+  async *iterateTagIps(
+    tagName: string,
+    options: TagIpsIterationOptions = {}
+  ): AsyncGenerator<TagIpsResponse, void, undefined> {
+    const pageSize = options.pageSize ?? MAX_TAG_IPS_PAGE_SIZE;
+    let offset = options.offset ?? 0;
+    let snapshot = options.snapshot;
+
+    while (true) {
+      if (options.signal?.aborted) {
+        throw new RequestAbortedError(`Walking ${tagName} was cancelled at offset ${offset}`, {
+          endpoint: 'tag_ips',
+          cause: options.signal.reason
+        });
       }
 
-      const response = await this.client.get(
-        `/tags/${encodeURIComponent(tagName)}/ips`,
-        { params }
-      );
-      // Extract the result from the API wrapper
-      if (response.data?.result) {
-        return {
-          tag: response.data.result.tag || tagName,
-          total: response.data.result.total,
-          offset: response.data.result.offset || offset,
-          limit: response.data.result.limit || limit,
-          ips: response.data.result.entries || []
-        };
+      const page = await this.getTagIps(tagName, { offset, limit: pageSize, snapshot, signal: options.signal });
+      snapshot = snapshot ?? page.snapshot;
+
+      if (page.ips.length === 0) {
+        return;
       }
-      throw new Error('Invalid response format from Guardian Intel API');
-    } catch (error) {
-      throw error;
+
+      yield { ...page, offset, snapshot };
+      offset += page.ips.length;
+
+      if (page.total !== undefined ? offset >= page.total : page.ips.length < pageSize) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Collects a whole tag into memory, stopping at `maxEntries` and flagging
+   * the result as truncated rather than growing without bound.
+   */
+  async fetchAllTagIps(tagName: string, options: FetchAllTagIpsOptions = {}): Promise<TagIpsCollection> {
+    const maxEntries = options.maxEntries ?? DEFAULT_MAX_TAG_ENTRIES;
+    const ips: string[] = [];
+    let snapshot = options.snapshot;
+    let total: number | undefined;
+    let pages = 0;
+    let truncated = false;
+
+    for await (const page of this.iterateTagIps(tagName, options)) {
+      pages++;
+      snapshot = page.snapshot;
+      total = page.total;
+
+      const remaining = maxEntries - ips.length;
+      ips.push(...page.ips.slice(0, remaining));
+
+      if (ips.length >= maxEntries) {
+        const end = (page.offset ?? 0) + page.ips.length;
+        truncated = page.ips.length > remaining ||
+          (page.total !== undefined ? end < page.total : page.ips.length >= (page.limit ?? MAX_TAG_IPS_PAGE_SIZE));
+        break;
+      }
+    }
+
+    return { tag: tagName, snapshot, total, ips, pages, truncated };
+  }
+
+  /**
+   * Runs a full connection check: DNS, TCP and TLS to the API host, one probe
+   * per endpoint with its latency, API key validity and rate limit headers,
+   * plus the local cache, breaker and queue state. Probes bypass the cache,
+   * retries and the circuit breaker so they show the upstream as it is now.
+   */
+  async diagnose(signal?: AbortSignal): Promise<DiagnosticsReport> {
+    const connectivity = await probeConnectivity(this.baseUrl, this.network);
+    if (signal?.aborted) {
+      throw new RequestAbortedError('Guardian Intel diagnostics were cancelled', { cause: signal.reason });
+    }
+    const endpoints: EndpointDiagnostics[] = [];
+    const statuses: number[] = [];
+    let rateLimit: Record<string, string> = {};
+
+    const probe = async (endpoint: ApiEndpoint, path: string, params?: Record<string, string>) => {
+      const started = Date.now();
+      try {
+        const response = await this.client.get(path, {
+          params,
+          signal,
+          timeout: PROBE_TIMEOUT_MS,
+          validateStatus: () => true
+        });
+        statuses.push(response.status);
+        rateLimit = { ...rateLimit, ...extractRateLimitHeaders(response.headers as Record<string, unknown>) };
+        endpoints.push(gradeEndpoint(endpoint, path, started, response.status));
+        return response;
+      } catch (error) {
+        if (signal?.aborted) {
+          throw new RequestAbortedError('Guardian Intel diagnostics were cancelled', { endpoint, cause: error });
+        }
+        endpoints.push(gradeEndpoint(endpoint, path, started, undefined, error));
+        return undefined;
+      }
+    };
+
+    const tags = await probe('tags', '/tags', { limit: '1' });
+    await probe('lookup', `/query/${PROBE_IP}`);
+
+    const firstTag = tags?.status === 200 && Array.isArray(tags.data?.result) ? tags.data.result[0]?.name : undefined;
+    if (typeof firstTag === 'string') {
+      await probe('tag_details', `/tags/${encodeURIComponent(firstTag)}`);
+      await probe('tag_ips', `/tags/${encodeURIComponent(firstTag)}/ips`, { limit: '1' });
+    } else {
+      const detail = 'no tag available to probe with';
+      endpoints.push(
+        { endpoint: 'tag_details', path: '/tags/:name', status: 'skipped', detail },
+        { endpoint: 'tag_ips', path: '/tags/:name/ips', status: 'skipped', detail }
+      );
     }
+
+    let apiKey: DiagnosticsReport['api_key'];
+    if (statuses.includes(401)) {
+      apiKey = { status: 'invalid', detail: 'rejected by the API (401) - check that the key is correct and not expired' };
+    } else if (statuses.includes(403)) {
+      apiKey = { status: 'forbidden', detail: 'accepted but lacks permission for some endpoints (403)' };
+    } else if (statuses.some(status => status < 400 || status === 404)) {
+      apiKey = { status: 'valid', detail: 'accepted by the API' };
+    } else {
+      apiKey = { status: 'unknown', detail: 'no probe got far enough to check the key' };
+    }
+
+    const report = {
+      checked_at: new Date().toISOString(),
+      client_version: CLIENT_VERSION,
+      base_url: this.baseUrl,
+      connectivity,
+      api_key: apiKey,
+      endpoints,
+      rate_limit: rateLimit,
+      cache: this.getCacheStats(),
+      circuit_breaker: toCircuitBreakerStatus(this.getCircuitBreakerState()),
+      queue_depth: this.getQueueDepth()
+    };
+
+    return { status: overallStatus(report), ...report };
   }
 
-  async healthCheck(): Promise<boolean> {
+  /**
+   * One cheap request to check the connection; its quota headers seed the
+   * tracked quota.
+   */
+  async healthCheck(signal?: AbortSignal): Promise<boolean> {
     try {
-      await this.client.get('/tags', { 
+      const response = await this.client.get('/tags', { 
         params: { limit: '1' },
-        timeout: 5000 
+        timeout: 5000,
+        ...(signal ? { signal } : {})
       });
+      this.quota.update(response.headers);
       return true;
     } catch (error) {
       return false;
@@ -0,0 +1,233 @@
+import type { GuardianIntelError } from './errors.js';
+import type { ApiEndpoint } from './types.js';
+
+const REDACTED = '[REDACTED]';
+const SECRET_PARAM = /key|token|secret|password|auth/i;
+
+/** Passed to every hook. One event describes one HTTP attempt or one cache hit. */
+export interface RequestEvent {
+  endpoint: ApiEndpoint;
+  method: 'GET';
+  path: string;
+  /** Query parameters, with anything that looks like a credential redacted */
+  params: Record<string, string>;
+  /** 1 for the first attempt, counting up with every retry; 0 for cache hits */
+  attempt: number;
+  /** True when the result was served from the local cache and no request was sent */
+  cacheHit: boolean;
+}
+
+export interface ResponseEvent extends RequestEvent {
+  /** HTTP status; undefined for cache hits */
+  status?: number;
+  durationMs: number;
+}
+
+export interface RequestErrorEvent extends RequestEvent {
+  status?: number;
+  durationMs: number;
+  error: GuardianIntelError;
+}
+
+export interface RetryEvent extends RequestEvent {
+  status?: number;
+  /** Duration of the attempt that failed */
+  durationMs: number;
+  /** Wait before the next attempt */
+  delayMs: number;
+  error: GuardianIntelError;
+}
+
+/**
+ * Instrumentation callbacks. Every attempt starts with `onRequest` and ends
+ * with exactly one of `onResponse`, `onRetry` (the attempt failed and will be
+ * retried) or `onError` (the call failed for good). Cache hits emit
+ * `onRequest` and `onResponse` with `cacheHit: true`. Hooks run
+ * synchronously in the request path and must not throw; exceptions they
+ * raise are ignored.
+ */
+export interface ClientHooks {
+  onRequest?: (event: RequestEvent) => void;
+  onResponse?: (event: ResponseEvent) => void;
+  onError?: (event: RequestErrorEvent) => void;
+  onRetry?: (event: RetryEvent) => void;
+}
+
+export function redactParams(params: Record<string, unknown> = {}): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      redacted[name] = SECRET_PARAM.test(name) ? REDACTED : String(value);
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Merges several hook sets into one that calls each in order. A hook that
+ * throws does not keep the others from running.
+ */
+export function combineHooks(...sets: Array<ClientHooks | undefined>): ClientHooks {
+  const present = sets.filter((set): set is ClientHooks => set !== undefined);
+
+  const fanOut = <E>(pick: (set: ClientHooks) => ((event: E) => void) | undefined) => {
+    const handlers = present.map(pick).filter((handler): handler is (event: E) => void => handler !== undefined);
+    if (handlers.length === 0) {
+      return undefined;
+    }
+
+    return (event: E) => {
+      for (const handler of handlers) {
+        try {
+          handler(event);
+        } catch {
+          // Instrumentation must never break a request
+        }
+      }
+    };
+  };
+
+  return {
+    onRequest: fanOut(set => set.onRequest),
+    onResponse: fanOut(set => set.onResponse),
+    onError: fanOut(set => set.onError),
+    onRetry: fanOut(set => set.onRetry)
+  };
+}
+
+const describeRequest = (event: RequestEvent) => {
+  const query = new URLSearchParams(event.params).toString();
+  return `${event.method} ${event.path}${query ? `?${query}` : ''}`;
+};
+
+/**
+ * Hooks that write one line per event, used by the server when DEBUG is set.
+ */
+export function createLoggingHooks(log: (line: string) => void = line => console.error(line)): ClientHooks {
+  return {
+    onRequest: (event) => {
+      if (!event.cacheHit) {
+        log(`[guardian-intel] → ${describeRequest(event)} (attempt ${event.attempt})`);
+      }
+    },
+    onResponse: (event) => {
+      log(event.cacheHit
+        ? `[guardian-intel] ✓ ${describeRequest(event)} served from cache`
+        : `[guardian-intel] ← ${event.status} ${describeRequest(event)} in ${event.durationMs} ms`);
+    },
+    onRetry: (event) => {
+      log(`[guardian-intel] ↻ ${describeRequest(event)} failed (${event.error.message}), retrying in ${event.delayMs} ms`);
+    },
+    onError: (event) => {
+      log(`[guardian-intel] ✗ ${describeRequest(event)} failed after ${event.attempt} attempt(s): ${event.error.name}: ${event.error.message}`);
+    }
+  };
+}
+
+interface EndpointCounters {
+  requests: number;
+  cacheHits: number;
+  retries: number;
+  errors: number;
+  totalDurationMs: number;
+  maxDurationMs: number;
+  responses: number;
+}
+
+/** Per-endpoint counters, as reported by the status tool. */
+export interface EndpointMetrics {
+  requests: number;
+  cache_hits: number;
+  retries: number;
+  errors: number;
+  avg_duration_ms?: number;
+  max_duration_ms?: number;
+}
+
+export interface RequestMetricsSnapshot {
+  since: string;
+  endpoints: Partial<Record<ApiEndpoint, EndpointMetrics>>;
+  errors_by_type: Record<string, number>;
+}
+
+/**
+ * Counts requests, cache hits, retries and errors per endpoint, plus
+ * response times. It is fed entirely through its `hooks`, like any
+ * user-supplied instrumentation.
+ */
+export class RequestMetrics {
+  private readonly endpoints = new Map<ApiEndpoint, EndpointCounters>();
+  private readonly errorsByType = new Map<string, number>();
+  private since: number;
+
+  readonly hooks: ClientHooks = {
+    onRequest: (event) => {
+      const counters = this.counters(event.endpoint);
+      if (event.cacheHit) {
+        counters.cacheHits++;
+      } else {
+        counters.requests++;
+      }
+    },
+    onResponse: (event) => {
+      if (!event.cacheHit) {
+        this.recordDuration(event.endpoint, event.durationMs);
+      }
+    },
+    onRetry: (event) => {
+      this.counters(event.endpoint).retries++;
+      this.recordDuration(event.endpoint, event.durationMs);
+    },
+    onError: (event) => {
+      this.counters(event.endpoint).errors++;
+      this.recordDuration(event.endpoint, event.durationMs);
+      this.errorsByType.set(event.error.name, (this.errorsByType.get(event.error.name) ?? 0) + 1);
+    }
+  };
+
+  constructor(private readonly now: () => number = Date.now) {
+    this.since = now();
+  }
+
+  snapshot(): RequestMetricsSnapshot {
+    const endpoints: RequestMetricsSnapshot['endpoints'] = {};
+    for (const [endpoint, counters] of this.endpoints) {
+      endpoints[endpoint] = {
+        requests: counters.requests,
+        cache_hits: counters.cacheHits,
+        retries: counters.retries,
+        errors: counters.errors,
+        avg_duration_ms: counters.responses > 0 ? Math.round(counters.totalDurationMs / counters.responses) : undefined,
+        max_duration_ms: counters.responses > 0 ? counters.maxDurationMs : undefined
+      };
+    }
+
+    return {
+      since: new Date(this.since).toISOString(),
+      endpoints,
+      errors_by_type: Object.fromEntries(this.errorsByType)
+    };
+  }
+
+  reset(): void {
+    this.endpoints.clear();
+    this.errorsByType.clear();
+    this.since = this.now();
+  }
+
+  private counters(endpoint: ApiEndpoint): EndpointCounters {
+    let counters = this.endpoints.get(endpoint);
+    if (!counters) {
+      counters = { requests: 0, cacheHits: 0, retries: 0, errors: 0, totalDurationMs: 0, maxDurationMs: 0, responses: 0 };
+      this.endpoints.set(endpoint, counters);
+    }
+    return counters;
+  }
+
+  private recordDuration(endpoint: ApiEndpoint, durationMs: number): void {
+    const counters = this.counters(endpoint);
+    counters.responses++;
+    counters.totalDurationMs += durationMs;
+    counters.maxDurationMs = Math.max(counters.maxDurationMs, durationMs);
+  }
+}
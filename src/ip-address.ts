@@ -0,0 +1,298 @@
+export type IpVersion = 4 | 6;
+
+export interface ParsedIp {
+  version: IpVersion;
+  /** Canonical text form: dotted decimal for IPv4, RFC 5952 for IPv6 */
+  address: string;
+  value: bigint;
+  /** IPv6 zone identifier (e.g. "eth0"), dropped from the canonical form */
+  zone?: string;
+}
+
+// Address grammar from RFC 3986 section 3.2.2, shared by the tool input
+// schemas and parseIp so both accept exactly the same inputs.
+const H16 = '[0-9A-Fa-f]{1,4}';
+const DEC_OCTET = '(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)';
+const IPV4 = `${DEC_OCTET}(?:\\.${DEC_OCTET}){3}`;
+const LS32 = `(?:${H16}:${H16}|${IPV4})`;
+const IPV6 = [
+  `(?:${H16}:){6}${LS32}`,
+  `::(?:${H16}:){5}${LS32}`,
+  `(?:${H16})?::(?:${H16}:){4}${LS32}`,
+  `(?:(?:${H16}:){0,1}${H16})?::(?:${H16}:){3}${LS32}`,
+  `(?:(?:${H16}:){0,2}${H16})?::(?:${H16}:){2}${LS32}`,
+  `(?:(?:${H16}:){0,3}${H16})?::${H16}:${LS32}`,
+  `(?:(?:${H16}:){0,4}${H16})?::${LS32}`,
+  `(?:(?:${H16}:){0,5}${H16})?::${H16}`,
+  `(?:(?:${H16}:){0,6}${H16})?::`
+].join('|');
+const ZONE = '(?:%[0-9A-Za-z_.~-]+)?';
+
+export const IPV4_PATTERN = `^${IPV4}$`;
+export const IPV6_PATTERN = `^(?:${IPV6})${ZONE}$`;
+export const IP_ADDRESS_PATTERN = `^(?:${IPV4}|(?:${IPV6})${ZONE})$`;
+
+const IPV4_REGEX = new RegExp(IPV4_PATTERN);
+const IPV6_REGEX = new RegExp(IPV6_PATTERN);
+
+const IPV4_MAPPED_PREFIX = 0xffffn << 32n;
+const IPV4_MAPPED_MASK = ~0xffffffffn & ((1n << 128n) - 1n);
+
+function parseIpv4Value(address: string): bigint {
+  return address
+    .split('.')
+    .reduce((value, octet) => (value << 8n) | BigInt(parseInt(octet, 10)), 0n);
+}
+
+function parseIpv6Value(address: string): bigint {
+  let text = address;
+  let embedded: bigint | undefined;
+
+  // An embedded IPv4 address occupies the last two groups
+  const lastColon = text.lastIndexOf(':');
+  if (text.slice(lastColon + 1).includes('.')) {
+    embedded = parseIpv4Value(text.slice(lastColon + 1));
+    text = text.slice(0, lastColon + 1) + '0:0';
+  }
+
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const zeroGroups = tail !== undefined ? 8 - headGroups.length - tailGroups.length : 0;
+
+  const groups = [
+    ...headGroups.map(group => parseInt(group, 16)),
+    ...new Array<number>(zeroGroups).fill(0),
+    ...tailGroups.map(group => parseInt(group, 16))
+  ];
+
+  const value = groups.reduce((acc, group) => (acc << 16n) | BigInt(group), 0n);
+  return embedded !== undefined ? (value & ~0xffffffffn) | embedded : value;
+}
+
+export function formatIpv4(value: bigint): string {
+  return [24n, 16n, 8n, 0n].map(shift => String((value >> shift) & 0xffn)).join('.');
+}
+
+/**
+ * Formats a 128-bit value using the RFC 5952 canonical text representation:
+ * lowercase, no leading zeros, longest run of two or more zero groups
+ * compressed (leftmost on a tie).
+ */
+export function formatIpv6(value: bigint): string {
+  const groups: number[] = [];
+  for (let shift = 112n; shift >= 0n; shift -= 16n) {
+    groups.push(Number((value >> shift) & 0xffffn));
+  }
+
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < groups.length; ) {
+    if (groups[i] !== 0) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < groups.length && groups[j] === 0) {
+      j++;
+    }
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const hex = groups.map(group => group.toString(16));
+  if (bestLength < 2) {
+    return hex.join(':');
+  }
+
+  const head = hex.slice(0, bestStart).join(':');
+  const tail = hex.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+}
+
+export function formatIp(value: bigint, version: IpVersion): string {
+  return version === 4 ? formatIpv4(value) : formatIpv6(value);
+}
+
+/**
+ * Parses an IPv4 or IPv6 address. IPv4-mapped IPv6 addresses
+ * (::ffff:1.2.3.4) are unwrapped to plain IPv4 and zone identifiers are
+ * split off. Returns null for anything that is not a valid address.
+ */
+export function parseIp(input: string): ParsedIp | null {
+  if (typeof input !== 'string') {
+    return null;
+  }
+
+  const text = input;
+
+  if (IPV4_REGEX.test(text)) {
+    const value = parseIpv4Value(text);
+    return { version: 4, address: formatIpv4(value), value };
+  }
+
+  if (!IPV6_REGEX.test(text)) {
+    return null;
+  }
+
+  const zoneIndex = text.indexOf('%');
+  const zone = zoneIndex >= 0 ? text.slice(zoneIndex + 1) : undefined;
+  const value = parseIpv6Value(zoneIndex >= 0 ? text.slice(0, zoneIndex) : text);
+
+  if ((value & IPV4_MAPPED_MASK) === IPV4_MAPPED_PREFIX) {
+    const ipv4 = value & 0xffffffffn;
+    return { version: 4, address: formatIpv4(ipv4), value: ipv4 };
+  }
+
+  return { version: 6, address: formatIpv6(value), value, zone };
+}
+
+export function isValidIp(input: string): boolean {
+  return parseIp(input) !== null;
+}
+
+/**
+ * Returns the canonical form used for requests and cache keys, or null if the
+ * input is not a valid address.
+ */
+export function normalizeIp(input: string): string | null {
+  return parseIp(input)?.address ?? null;
+}
+
+export interface ParsedCidr {
+  version: IpVersion;
+  /** Network address with the host bits cleared */
+  network: bigint;
+  prefixLength: number;
+  /** Canonical text form, e.g. "192.0.2.0/24" */
+  cidr: string;
+}
+
+/**
+ * Parses a CIDR prefix such as "192.0.2.0/24" or "2001:db8::/126". A bare
+ * address is treated as a single-host prefix, and host bits set in the
+ * address are cleared. Returns null for anything else.
+ */
+export function parseCidr(input: string): ParsedCidr | null {
+  if (typeof input !== 'string') {
+    return null;
+  }
+
+  const [addressText, prefixText, ...rest] = input.trim().split('/');
+  const parsed = parseIp(addressText);
+  if (!parsed || parsed.zone || rest.length > 0) {
+    return null;
+  }
+
+  const bits = parsed.version === 4 ? 32 : 128;
+  if (prefixText !== undefined && !/^\d{1,3}$/.test(prefixText)) {
+    return null;
+  }
+
+  const prefixLength = prefixText === undefined ? bits : parseInt(prefixText, 10);
+  if (prefixLength > bits) {
+    return null;
+  }
+
+  const hostBits = BigInt(bits - prefixLength);
+  const network = (parsed.value >> hostBits) << hostBits;
+
+  return {
+    version: parsed.version,
+    network,
+    prefixLength,
+    cidr: `${formatIp(network, parsed.version)}/${prefixLength}`
+  };
+}
+
+/**
+ * Range of host addresses in a prefix. For IPv4 prefixes shorter than /31
+ * the network and broadcast addresses are left out, as they never carry
+ * traffic of their own.
+ */
+export function cidrHostRange(cidr: ParsedCidr): { first: bigint; count: bigint } {
+  const hostBits = BigInt((cidr.version === 4 ? 32 : 128) - cidr.prefixLength);
+  const size = 1n << hostBits;
+
+  if (cidr.version === 4 && cidr.prefixLength < 31) {
+    return { first: cidr.network + 1n, count: size - 2n };
+  }
+  return { first: cidr.network, count: size };
+}
+
+/**
+ * Yields the canonical host addresses of a prefix in ascending order.
+ */
+export function* expandCidr(cidr: ParsedCidr): Generator<string, void, undefined> {
+  const { first, count } = cidrHostRange(cidr);
+  for (let offset = 0n; offset < count; offset++) {
+    yield formatIp(first + offset, cidr.version);
+  }
+}
+
+export function cidrContains(cidr: ParsedCidr, ip: ParsedIp): boolean {
+  if (ip.version !== cidr.version) {
+    return false;
+  }
+  const hostBits = BigInt((cidr.version === 4 ? 32 : 128) - cidr.prefixLength);
+  return (ip.value >> hostBits) === (cidr.network >> hostBits);
+}
+
+export type SpecialRangeKind =
+  | 'private'
+  | 'shared'
+  | 'loopback'
+  | 'link_local'
+  | 'documentation'
+  | 'benchmarking'
+  | 'multicast'
+  | 'unspecified'
+  | 'reserved';
+
+export interface SpecialRange {
+  cidr: string;
+  kind: SpecialRangeKind;
+}
+
+// From the IANA special-purpose address registries (RFC 6890 and successors).
+// The ranges do not overlap, so order does not matter.
+const SPECIAL_RANGES: Array<[string, SpecialRangeKind]> = [
+  ['0.0.0.0/8', 'reserved'],
+  ['10.0.0.0/8', 'private'],
+  ['100.64.0.0/10', 'shared'],
+  ['127.0.0.0/8', 'loopback'],
+  ['169.254.0.0/16', 'link_local'],
+  ['172.16.0.0/12', 'private'],
+  ['192.0.0.0/24', 'reserved'],
+  ['192.0.2.0/24', 'documentation'],
+  ['192.88.99.0/24', 'reserved'],
+  ['192.168.0.0/16', 'private'],
+  ['198.18.0.0/15', 'benchmarking'],
+  ['198.51.100.0/24', 'documentation'],
+  ['203.0.113.0/24', 'documentation'],
+  ['224.0.0.0/4', 'multicast'],
+  ['240.0.0.0/4', 'reserved'],
+  ['::/128', 'unspecified'],
+  ['::1/128', 'loopback'],
+  ['100::/64', 'reserved'],
+  ['2001:db8::/32', 'documentation'],
+  ['2001::/23', 'reserved'],
+  ['3fff::/20', 'documentation'],
+  ['fc00::/7', 'private'],
+  ['fe80::/10', 'link_local'],
+  ['ff00::/8', 'multicast']
+];
+
+const PARSED_SPECIAL_RANGES = SPECIAL_RANGES.map(([cidr, kind]) => ({ cidr: parseCidr(cidr)!, kind }));
+
+/**
+ * Returns the special-purpose range (private, loopback, documentation, ...)
+ * an address belongs to, or undefined for globally routable addresses.
+ */
+export function findSpecialRange(ip: ParsedIp): SpecialRange | undefined {
+  const match = PARSED_SPECIAL_RANGES.find(range => cidrContains(range.cidr, ip));
+  return match ? { cidr: match.cidr.cidr, kind: match.kind } : undefined;
+}
@@ -0,0 +1,163 @@
+import { parseIp } from './ip-address.js';
+
+const INITIAL_CAPACITY = 1024;
+const CANONICAL_OCTET = /^(?:0|[1-9]\d{0,2})$/;
+
+/** Canonical dotted quads, the bulk of every tag, skip the general parser. */
+function ipv4ToNumber(ip: string): number | undefined {
+  const octets = ip.split('.');
+  if (octets.length !== 4) {
+    return undefined;
+  }
+
+  let value = 0;
+  for (const octet of octets) {
+    if (!CANONICAL_OCTET.test(octet) || Number(octet) > 255) {
+      return undefined;
+    }
+    value = value * 256 + Number(octet);
+  }
+  return value;
+}
+
+const numberToIpv4 = (value: number) =>
+  `${value >>> 24}.${(value >>> 16) & 255}.${(value >>> 8) & 255}.${value & 255}`;
+
+// Fibonacci hashing: the top bits of the product depend on every bit of the address
+const hash = (value: number, shift: number) => Math.imul(value, 0x9e3779b1) >>> shift;
+
+/**
+ * A set of IP addresses sized for whole tags. IPv4 addresses are kept as
+ * 32-bit integers in an open-addressing table (about 10 bytes per address
+ * instead of a string per entry); IPv6 addresses and entries that are not
+ * plain addresses, such as prefixes, fall back to a string set in canonical
+ * form. Iteration order is unspecified.
+ */
+export class IpSet {
+  private slots = new Uint32Array(INITIAL_CAPACITY);
+  private used = new Uint8Array(INITIAL_CAPACITY);
+  private shift = 32 - Math.log2(INITIAL_CAPACITY);
+  private ipv4Count = 0;
+  private readonly others = new Set<string>();
+
+  static from(ips: Iterable<string>): IpSet {
+    const set = new IpSet();
+    for (const ip of ips) {
+      set.add(ip);
+    }
+    return set;
+  }
+
+  get size(): number {
+    return this.ipv4Count + this.others.size;
+  }
+
+  /** Adds an address; returns false when it was already present. */
+  add(ip: string): boolean {
+    const key = this.key(ip);
+    if (typeof key === 'string') {
+      const before = this.others.size;
+      this.others.add(key);
+      return this.others.size > before;
+    }
+
+    if ((this.ipv4Count + 1) * 2 > this.slots.length) {
+      this.grow();
+    }
+    const slot = this.find(key);
+    if (this.used[slot]) {
+      return false;
+    }
+    this.used[slot] = 1;
+    this.slots[slot] = key;
+    this.ipv4Count++;
+    return true;
+  }
+
+  has(ip: string): boolean {
+    const key = this.key(ip);
+    return typeof key === 'string' ? this.others.has(key) : this.used[this.find(key)] === 1;
+  }
+
+  /** Removes an address; returns false when it was not present. */
+  delete(ip: string): boolean {
+    const key = this.key(ip);
+    if (typeof key === 'string') {
+      return this.others.delete(key);
+    }
+
+    let slot = this.find(key);
+    if (!this.used[slot]) {
+      return false;
+    }
+
+    // Backward-shift deletion keeps probe sequences intact without tombstones
+    const mask = this.slots.length - 1;
+    let next = (slot + 1) & mask;
+    while (this.used[next]) {
+      const home = hash(this.slots[next], this.shift);
+      const distanceToSlot = (slot - home) & mask;
+      const distanceToNext = (next - home) & mask;
+      if (distanceToSlot < distanceToNext) {
+        this.slots[slot] = this.slots[next];
+        slot = next;
+      }
+      next = (next + 1) & mask;
+    }
+    this.used[slot] = 0;
+    this.ipv4Count--;
+    return true;
+  }
+
+  *values(): Generator<string, void, undefined> {
+    for (let slot = 0; slot < this.slots.length; slot++) {
+      if (this.used[slot]) {
+        yield numberToIpv4(this.slots[slot]);
+      }
+    }
+    yield* this.others;
+  }
+
+  [Symbol.iterator](): Generator<string, void, undefined> {
+    return this.values();
+  }
+
+  private key(ip: string): number | string {
+    const ipv4 = ipv4ToNumber(ip);
+    if (ipv4 !== undefined) {
+      return ipv4;
+    }
+
+    const parsed = parseIp(ip);
+    if (parsed?.version === 4) {
+      return Number(parsed.value);
+    }
+    return parsed ? parsed.address : ip.trim().toLowerCase();
+  }
+
+  /** The slot holding `value`, or the empty slot where it would go. */
+  private find(value: number): number {
+    const mask = this.slots.length - 1;
+    let slot = hash(value, this.shift);
+    while (this.used[slot] && this.slots[slot] !== value) {
+      slot = (slot + 1) & mask;
+    }
+    return slot;
+  }
+
+  private grow(): void {
+    const slots = this.slots;
+    const used = this.used;
+    this.slots = new Uint32Array(slots.length * 2);
+    this.used = new Uint8Array(slots.length * 2);
+    this.shift--;
+
+    for (let slot = 0; slot < slots.length; slot++) {
+      if (used[slot]) {
+        const target = this.find(slots[slot]);
+        this.used[target] = 1;
+        this.slots[target] = slots[slot];
+      }
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  AuthenticationError,
+  CircuitOpenError,
+  ForbiddenError,
+  GuardianIntelError,
+  MalformedResponseError,
+  NetworkError,
+  NotFoundError,
+  QuotaThresholdError,
+  RateLimitError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  UpstreamUnavailableError,
+  ValidationError
+} from './errors.js';
+
+/**
+ * Maps typed client errors to MCP errors. Anything that is not a
+ * GuardianIntelError is reported as a generic tool failure.
+ */
+export function toMcpError(error: unknown): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+
+  if (!(error instanceof GuardianIntelError)) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return new McpError(
+      ErrorCode.InternalError,
+      errorMessage.startsWith('Tool execution failed') ? errorMessage : `Tool execution failed: ${errorMessage}`
+    );
+  }
+
+  if (error instanceof ValidationError) {
+    return new McpError(ErrorCode.InvalidParams, error.message);
+  }
+
+  if (error instanceof NotFoundError) {
+    const message = error.endpoint === 'lookup'
+      ? 'No threat intelligence found for this IP address'
+      : 'Tag not found';
+    return new McpError(ErrorCode.InvalidParams, message);
+  }
+
+  if (error instanceof AuthenticationError) {
+    return new McpError(ErrorCode.InternalError, 'Guardian Intel API key is invalid or missing');
+  }
+
+  if (error instanceof ForbiddenError) {
+    return new McpError(ErrorCode.InternalError, 'Guardian Intel API key is not permitted to access this resource');
+  }
+
+  if (error instanceof RateLimitError) {
+    const retryHint = error.retryAfterMs !== undefined
+      ? ` - retry after ${Math.ceil(error.retryAfterMs / 1000)}s`
+      : '';
+    return new McpError(ErrorCode.InternalError, `Guardian Intel rate limit exceeded${retryHint}`);
+  }
+
+  if (error instanceof QuotaThresholdError) {
+    return new McpError(ErrorCode.InvalidRequest, error.message);
+  }
+
+  if (error instanceof CircuitOpenError) {
+    return new McpError(ErrorCode.InternalError, error.message);
+  }
+
+  if (error instanceof UpstreamUnavailableError) {
+    return new McpError(ErrorCode.InternalError, 'Guardian Intel service temporarily unavailable');
+  }
+
+  if (error instanceof RequestAbortedError) {
+    return new McpError(ErrorCode.InternalError, 'Guardian Intel request was cancelled');
+  }
+
+  if (error instanceof RequestTimeoutError) {
+    return new McpError(ErrorCode.InternalError, 'Request timeout - Guardian Intel API is not responding');
+  }
+
+  if (error instanceof NetworkError) {
+    return new McpError(ErrorCode.InternalError, 'Unable to connect to Guardian Intel API');
+  }
+
+  if (error instanceof MalformedResponseError) {
+    return new McpError(ErrorCode.InternalError, `Unexpected response from Guardian Intel API: ${error.message}`);
+  }
+
+  return new McpError(ErrorCode.InternalError, `Tool execution failed: ${error.message}`);
+}
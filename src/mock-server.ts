@@ -0,0 +1,405 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { normalizeIp } from './ip-address.js';
+
+export interface MockIpSeed {
+  item: string;
+  intent?: string;
+  tags?: string[];
+  firstSeen?: string;
+  lastSeen?: string;
+  asn?: { asn: string; name: string; countryCode: string };
+  abuseContact?: { email: string; status: string; lastVerification: string };
+  observedActivity?: Record<string, unknown>;
+}
+
+export interface MockTagSeed {
+  name: string;
+  intent: string;
+  category: string;
+  description?: string;
+  ips: string[];
+}
+
+export interface MockSeed {
+  ips: MockIpSeed[];
+  tags: MockTagSeed[];
+}
+
+interface MockFaultScope {
+  /** Only requests whose path starts with this prefix are affected (default: all) */
+  path?: string;
+  /** Number of requests the fault applies to before it is removed (default: unlimited) */
+  times?: number;
+}
+
+/**
+ * A scripted misbehaviour. Latency delays the request and lets it continue;
+ * the other faults answer the request themselves.
+ */
+export type MockFault = MockFaultScope & (
+  | { type: 'latency'; delayMs: number }
+  | { type: 'status'; status: number; message?: string }
+  | { type: 'rate_limit'; retryAfterSeconds?: number }
+  | { type: 'malformed'; body?: string }
+);
+
+export interface MockRequestLogEntry {
+  method: string;
+  path: string;
+  status: number;
+}
+
+export interface MockServerOptions {
+  seed?: MockSeed;
+  faults?: MockFault[];
+  /** When set, requests must send exactly this key; otherwise any key is accepted */
+  apiKey?: string;
+}
+
+const SNAPSHOT_ID = 'mock-snapshot-1';
+const MAX_PAGE_SIZE = 10000;
+
+function generateIps(prefix: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `${prefix}.${i >> 8}.${i & 255}`);
+}
+
+/**
+ * Built-in dataset. Addresses come from documentation and benchmarking
+ * ranges; `tool:scanner` is large enough to need several pages.
+ */
+export const DEFAULT_MOCK_SEED: MockSeed = {
+  ips: [
+    {
+      item: '192.0.2.10',
+      intent: 'malicious',
+      firstSeen: '2024-01-02T03:04:05Z',
+      lastSeen: '2024-06-01T12:00:00Z',
+      asn: { asn: '64500', name: 'Example Hosting', countryCode: 'NL' },
+      abuseContact: { email: 'abuse@example.net', status: 'verified', lastVerification: '2024-05-01T00:00:00Z' },
+      observedActivity: {
+        ssh: { type: 'brute-force', description: 'SSH password guessing', timestamp: '2024-06-01T11:58:00Z', severity: 'high' }
+      }
+    },
+    {
+      item: '192.0.2.20',
+      intent: 'suspicious',
+      firstSeen: '2024-03-10T08:00:00Z',
+      lastSeen: '2024-06-02T09:30:00Z',
+      asn: { asn: '64501', name: 'Example Cloud', countryCode: 'US' }
+    },
+    {
+      item: '2001:db8::10',
+      intent: 'malicious',
+      firstSeen: '2024-02-14T00:00:00Z',
+      lastSeen: '2024-05-30T22:10:00Z',
+      asn: { asn: '64502', name: 'Example Transit', countryCode: 'DE' }
+    },
+    {
+      item: '203.0.113.5',
+      intent: 'none',
+      asn: { asn: '64503', name: 'Example ISP', countryCode: 'GB' }
+    }
+  ],
+  tags: [
+    {
+      name: 'credentials:brute-force',
+      intent: 'malicious',
+      category: 'activity',
+      description: 'Brute force credential attacks',
+      ips: ['192.0.2.10', '192.0.2.11', '192.0.2.12']
+    },
+    {
+      name: 'tool:scanner',
+      intent: 'suspicious',
+      category: 'tool',
+      description: 'Internet-wide port scanning',
+      ips: ['192.0.2.10', '192.0.2.20', ...generateIps('198.18', 2500)]
+    },
+    {
+      name: 'actor:mirai',
+      intent: 'malicious',
+      category: 'actor',
+      description: 'Mirai botnet infrastructure',
+      ips: ['2001:db8::10']
+    }
+  ]
+};
+
+interface Reply {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+const json = (status: number, body: unknown): Reply => ({ status, body });
+const error = (status: number, message: string): Reply => json(status, { statusCode: status, message });
+
+/**
+ * Local stand-in for the Guardian Intel API, serving `/query/:ip`, `/tags`,
+ * `/tags/:name` and `/tags/:name/ips` from a seed dataset. Faults can be
+ * scripted up front, through `inject()`, or over HTTP at `/__faults`.
+ */
+export class MockGuardianIntelServer {
+  readonly requests: MockRequestLogEntry[] = [];
+  private readonly server = http.createServer((req, res) => {
+    this.handle(req, res).catch(err => {
+      this.send(req, res, error(500, err instanceof Error ? err.message : String(err)));
+    });
+  });
+  private readonly records = new Map<string, MockIpSeed>();
+  private readonly tags = new Map<string, MockTagSeed>();
+  private readonly tagsByIp = new Map<string, string[]>();
+  private faults: MockFault[];
+
+  constructor(private readonly options: MockServerOptions = {}) {
+    const seed = options.seed ?? DEFAULT_MOCK_SEED;
+    this.faults = (options.faults ?? []).map(fault => ({ ...fault }));
+
+    for (const record of seed.ips) {
+      this.records.set(normalizeIp(record.item) ?? record.item, record);
+    }
+
+    for (const tag of seed.tags) {
+      this.tags.set(tag.name, tag);
+      for (const ip of tag.ips) {
+        const address = normalizeIp(ip) ?? ip;
+        this.tagsByIp.set(address, [...(this.tagsByIp.get(address) ?? []), tag.name]);
+      }
+    }
+  }
+
+  get url(): string {
+    const address = this.server.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('Mock server is not running');
+    }
+    const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+    return `http://${host}:${address.port}`;
+  }
+
+  /** Starts listening; port 0 picks a free port. Resolves with the base URL. */
+  async start(port = 0, host = '127.0.0.1'): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server.listening) {
+      return;
+    }
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => this.server.close(err => (err ? reject(err) : resolve())));
+  }
+
+  inject(...faults: MockFault[]): void {
+    this.faults.push(...faults.map(fault => ({ ...fault })));
+  }
+
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  get activeFaults(): MockFault[] {
+    return [...this.faults];
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === '/__faults') {
+      this.send(req, res, await this.handleFaults(req), false);
+      return;
+    }
+
+    const fault = await this.applyFaults(url.pathname);
+    if (fault) {
+      this.send(req, res, fault);
+      return;
+    }
+
+    const apiKey = req.headers['x-api-key'];
+    if (!apiKey || (this.options.apiKey !== undefined && apiKey !== this.options.apiKey)) {
+      this.send(req, res, error(401, 'Invalid or missing API key'));
+      return;
+    }
+
+    if (req.method !== 'GET') {
+      this.send(req, res, error(405, 'Method not allowed'));
+      return;
+    }
+
+    this.send(req, res, this.route(url));
+  }
+
+  private route(url: URL): Reply {
+    const segments = url.pathname.split('/').filter(Boolean).map(segment => decodeURIComponent(segment));
+
+    if (segments[0] === 'query' && segments.length === 2) {
+      return this.lookup(segments[1]);
+    }
+
+    if (segments[0] === 'tags') {
+      if (segments.length === 1) {
+        return this.listTags(url.searchParams);
+      }
+      if (segments.length === 2) {
+        const tag = this.tags.get(segments[1]);
+        return tag ? json(200, { result: this.describeTag(tag, true) }) : error(404, 'Tag not found');
+      }
+      if (segments.length === 3 && segments[2] === 'ips') {
+        return this.tagIps(segments[1], url.searchParams);
+      }
+    }
+
+    return error(404, 'Not found');
+  }
+
+  private lookup(ip: string): Reply {
+    const address = normalizeIp(ip);
+    if (!address) {
+      return error(400, 'Invalid IP address');
+    }
+
+    const record = this.records.get(address);
+    const tags = this.tagsByIp.get(address);
+    if (!record && !tags) {
+      return error(404, 'IP address not found');
+    }
+
+    return json(200, {
+      result: {
+        intent: tags ? 'suspicious' : 'none',
+        ...record,
+        item: address,
+        tags: [...new Set([...(record?.tags ?? []), ...(tags ?? [])])]
+      }
+    });
+  }
+
+  private describeTag(tag: MockTagSeed, includeDescription: boolean) {
+    return {
+      name: tag.name,
+      intent: tag.intent,
+      category: tag.category,
+      description: includeDescription ? tag.description : undefined
+    };
+  }
+
+  private listTags(params: URLSearchParams): Reply {
+    const includeDescriptions = params.get('includeDescriptions') === 'true';
+    const limit = params.has('limit') ? Number(params.get('limit')) : undefined;
+    const tags = [...this.tags.values()].map(tag => this.describeTag(tag, includeDescriptions));
+
+    return json(200, { result: limit !== undefined ? tags.slice(0, limit) : tags });
+  }
+
+  private tagIps(name: string, params: URLSearchParams): Reply {
+    const tag = this.tags.get(name);
+    if (!tag) {
+      return error(404, 'Tag not found');
+    }
+
+    const offset = Number(params.get('offset') ?? 0);
+    const limit = Number(params.get('limit') ?? 1000);
+    const snapshot = params.get('snapshot');
+
+    if (!Number.isInteger(offset) || !Number.isInteger(limit) || offset < 0 || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return error(400, 'Invalid offset or limit');
+    }
+
+    if (snapshot && snapshot !== SNAPSHOT_ID) {
+      return error(410, 'Snapshot expired');
+    }
+
+    return json(200, {
+      result: {
+        tag: tag.name,
+        total: tag.ips.length,
+        offset,
+        limit,
+        snapshot: SNAPSHOT_ID,
+        entries: tag.ips.slice(offset, offset + limit)
+      }
+    });
+  }
+
+  private async applyFaults(path: string): Promise<Reply | undefined> {
+    for (const fault of [...this.faults]) {
+      if (fault.path && !path.startsWith(fault.path)) {
+        continue;
+      }
+
+      if (fault.times !== undefined && --fault.times <= 0) {
+        this.faults = this.faults.filter(active => active !== fault);
+      }
+
+      switch (fault.type) {
+        case 'latency':
+          await new Promise(resolve => setTimeout(resolve, fault.delayMs));
+          break;
+        case 'status':
+          return error(fault.status, fault.message ?? http.STATUS_CODES[fault.status] ?? 'Injected fault');
+        case 'rate_limit':
+          return {
+            ...error(429, 'Rate limit exceeded'),
+            headers: { 'Retry-After': String(fault.retryAfterSeconds ?? 1) }
+          };
+        case 'malformed':
+          return { status: 200, body: fault.body ?? '{"result": {"item": 42, "tags": "not-a-list"' };
+      }
+    }
+
+    return undefined;
+  }
+
+  private async handleFaults(req: IncomingMessage): Promise<Reply> {
+    switch (req.method) {
+      case 'GET':
+        return json(200, { faults: this.faults });
+      case 'DELETE':
+        this.clearFaults();
+        return json(200, { faults: [] });
+      case 'POST': {
+        let body = '';
+        for await (const chunk of req) {
+          body += chunk;
+        }
+        try {
+          const parsed = JSON.parse(body) as MockFault | MockFault[];
+          this.inject(...(Array.isArray(parsed) ? parsed : [parsed]));
+          return json(200, { faults: this.faults });
+        } catch {
+          return error(400, 'Fault must be a JSON object or array');
+        }
+      }
+      default:
+        return error(405, 'Method not allowed');
+    }
+  }
+
+  private send(req: IncomingMessage, res: ServerResponse, reply: Reply, log = true): void {
+    if (log) {
+      this.requests.push({ method: req.method ?? 'GET', path: req.url ?? '/', status: reply.status });
+    }
+
+    const body = typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body);
+    res.writeHead(reply.status, { 'Content-Type': 'application/json', ...reply.headers });
+    res.end(body);
+  }
+}
+
+/**
+ * Starts a mock server on a free local port, e.g. from a Jest `beforeAll`.
+ */
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockGuardianIntelServer> {
+  const server = new MockGuardianIntelServer(options);
+  await server.start();
+  return server;
+}
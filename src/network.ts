@@ -0,0 +1,129 @@
+import { readFileSync } from 'fs';
+import https from 'https';
+import { rootCertificates } from 'tls';
+import { AxiosProxyConfig, AxiosRequestConfig } from 'axios';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { NetworkConfig } from './types.js';
+
+/**
+ * Parses a NO_PROXY style list (comma or whitespace separated).
+ */
+export function parseNoProxy(value: string | string[] | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+
+  const entries = Array.isArray(value) ? value : value.split(/[\s,]+/);
+  return entries.map(entry => entry.trim().toLowerCase()).filter(entry => entry.length > 0);
+}
+
+/**
+ * Matches a target URL against NO_PROXY entries using the common
+ * conventions: `*` matches everything, `example.com` and `.example.com`
+ * match the domain and its subdomains, and `host:port` also requires the port.
+ */
+export function shouldBypassProxy(targetUrl: string, noProxy: string[]): boolean {
+  const url = new URL(targetUrl);
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+  return noProxy.some(entry => {
+    if (entry === '*') {
+      return true;
+    }
+
+    // Bare IPv6 addresses contain colons but never a port
+    const match = /^(?:\[([^\]]+)\]|([^:]+))(?::(\d+))?$/.exec(entry);
+    const entryHost = match ? match[1] ?? match[2] : entry;
+    const entryPort = match?.[3];
+
+    if (entryPort && entryPort !== port) {
+      return false;
+    }
+
+    const domain = entryHost.replace(/^\*?\./, '');
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  });
+}
+
+function readPemFile(path: string, description: string): Buffer {
+  try {
+    return readFileSync(path);
+  } catch (error) {
+    throw new Error(`Unable to read ${description} from ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function toAxiosProxy(proxyUrl: string): AxiosProxyConfig {
+  const url = new URL(proxyUrl);
+
+  return {
+    protocol: url.protocol.replace(/:$/, ''),
+    host: url.hostname,
+    port: Number(url.port) || (url.protocol === 'https:' ? 443 : 80),
+    auth: url.username
+      ? { username: decodeURIComponent(url.username), password: decodeURIComponent(url.password) }
+      : undefined
+  };
+}
+
+/**
+ * TLS options for the extra CA bundle and the client certificate, shared by
+ * the HTTP agents and the connectivity diagnostics.
+ */
+export function createTlsOptions(config: NetworkConfig = {}): https.AgentOptions {
+  const tlsOptions: https.AgentOptions = {};
+
+  if (config.caFile) {
+    // Extend rather than replace the bundled roots, so public endpoints keep working
+    tlsOptions.ca = [...rootCertificates, readPemFile(config.caFile, 'CA bundle').toString()];
+  }
+
+  if (config.clientCertFile || config.clientKeyFile) {
+    if (!config.clientCertFile || !config.clientKeyFile) {
+      throw new Error('Client certificate and client key must be configured together');
+    }
+    tlsOptions.cert = readPemFile(config.clientCertFile, 'client certificate');
+    tlsOptions.key = readPemFile(config.clientKeyFile, 'client key');
+    tlsOptions.passphrase = config.clientKeyPassphrase;
+  }
+
+  return tlsOptions;
+}
+
+export function usesProxy(baseUrl: string, config: NetworkConfig = {}): boolean {
+  return !!config.proxyUrl && !shouldBypassProxy(baseUrl, parseNoProxy(config.noProxy));
+}
+
+/**
+ * Builds the axios transport options for proxies, extra CA certificates and
+ * client certificates. HTTPS targets are tunnelled through the proxy with
+ * CONNECT so TLS (including mTLS) is negotiated with the API itself. Returns
+ * an empty object when nothing is configured so axios keeps its defaults.
+ */
+export function createTransportConfig(baseUrl: string, config: NetworkConfig = {}): AxiosRequestConfig {
+  const tlsOptions = createTlsOptions(config);
+  const hasTlsOptions = Object.keys(tlsOptions).length > 0;
+  const useProxy = usesProxy(baseUrl, config);
+  const isHttps = new URL(baseUrl).protocol === 'https:';
+
+  if (useProxy && isHttps) {
+    return {
+      httpsAgent: new HttpsProxyAgent(config.proxyUrl!, tlsOptions),
+      proxy: false
+    };
+  }
+
+  if (useProxy) {
+    return { proxy: toAxiosProxy(config.proxyUrl!) };
+  }
+
+  if (config.proxyUrl || hasTlsOptions) {
+    return {
+      httpsAgent: hasTlsOptions ? new https.Agent(tlsOptions) : undefined,
+      proxy: false
+    };
+  }
+
+  return {};
+}
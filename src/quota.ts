@@ -0,0 +1,155 @@
+import { QuotaThresholdError } from './errors.js';
+import { QuotaStatus, QuotaWindowKind } from './types.js';
+
+export interface QuotaPolicy {
+  /** Fraction of the limit at or below which the quota counts as low */
+  lowFraction: number;
+  /**
+   * Remaining requests in the quota window below which bulk and export
+   * operations refuse to run. The short rate-limit window never triggers it:
+   * the rate limiter queues those requests instead.
+   */
+  softLimit?: number;
+}
+
+export const DEFAULT_QUOTA_POLICY: QuotaPolicy = {
+  lowFraction: 0.1
+};
+
+interface QuotaWindow {
+  limit?: number;
+  remaining?: number;
+  resetAt?: number;
+  observedAt: number;
+}
+
+// Header prefixes per window, most specific first. `quota` is the long-lived
+// allowance (e.g. daily); `rate_limit` is the short request-rate window.
+const WINDOW_PREFIXES: Record<QuotaWindowKind, string[]> = {
+  quota: ['x-quota-', 'quota-'],
+  rate_limit: ['x-ratelimit-', 'x-rate-limit-', 'ratelimit-']
+};
+
+// Reset values this large are Unix timestamps rather than delays
+const EPOCH_SECONDS_THRESHOLD = 1e9;
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const number = Number(String(value).split(/[,;]/)[0].trim());
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Parses a reset header: seconds until reset, a Unix timestamp in seconds or
+ * an HTTP date. Returns the reset time in epoch milliseconds.
+ */
+export function parseReset(value: unknown, now: number = Date.now()): number | undefined {
+  const number = toNumber(value);
+  if (number !== undefined) {
+    return number >= EPOCH_SECONDS_THRESHOLD ? number * 1000 : now + number * 1000;
+  }
+
+  const date = typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isNaN(date) ? undefined : date;
+}
+
+/**
+ * Tracks the remaining allowance reported in response headers. The long-lived
+ * quota window is preferred when the API reports one; otherwise the
+ * rate-limit window is used. Information is dropped once its reset time has
+ * passed, because the allowance has been replenished since.
+ */
+export class QuotaTracker {
+  private readonly windows = new Map<QuotaWindowKind, QuotaWindow>();
+
+  constructor(
+    private readonly policy: QuotaPolicy = DEFAULT_QUOTA_POLICY,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  update(headers: Record<string, unknown> | undefined): void {
+    if (!headers) {
+      return;
+    }
+
+    const now = this.now();
+    const lower = new Map(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+
+    for (const [kind, prefixes] of Object.entries(WINDOW_PREFIXES) as Array<[QuotaWindowKind, string[]]>) {
+      const prefix = prefixes.find(candidate => lower.has(`${candidate}remaining`));
+      if (!prefix) {
+        continue;
+      }
+
+      this.windows.set(kind, {
+        limit: toNumber(lower.get(`${prefix}limit`)),
+        remaining: toNumber(lower.get(`${prefix}remaining`)),
+        resetAt: parseReset(lower.get(`${prefix}reset`), now),
+        observedAt: now
+      });
+    }
+  }
+
+  getStatus(): QuotaStatus | undefined {
+    const now = this.now();
+
+    for (const kind of ['quota', 'rate_limit'] as const) {
+      const window = this.windows.get(kind);
+      if (!window || window.remaining === undefined) {
+        continue;
+      }
+      if (window.resetAt !== undefined && window.resetAt <= now) {
+        this.windows.delete(kind);
+        continue;
+      }
+
+      return {
+        source: kind,
+        limit: window.limit,
+        remaining: window.remaining,
+        reset_at: window.resetAt !== undefined ? new Date(window.resetAt).toISOString() : undefined,
+        reset_in_seconds: window.resetAt !== undefined ? Math.ceil((window.resetAt - now) / 1000) : undefined,
+        low: this.isLow(kind, window),
+        soft_limit: this.policy.softLimit,
+        observed_at: new Date(window.observedAt).toISOString()
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Refuses an operation that needs `cost` requests when the remaining
+   * quota is, or would drop, below the soft limit. Only the quota window
+   * counts; a rate-limit window merely delays requests.
+   */
+  assertAvailable(operation: string, cost = 1): void {
+    const status = this.getStatus();
+    const softLimit = this.policy.softLimit;
+    if (!status || status.source !== 'quota' || softLimit === undefined || status.remaining === undefined) {
+      return;
+    }
+
+    if (status.remaining - cost < softLimit) {
+      const reset = status.reset_in_seconds !== undefined ? `, resets in ${status.reset_in_seconds}s` : '';
+      throw new QuotaThresholdError(
+        `Refusing ${operation}: it needs up to ${cost} request(s) and only ${status.remaining} remain ` +
+        `against a soft limit of ${softLimit}${reset}. Pass force: true to run it anyway.`,
+        { remaining: status.remaining, softLimit }
+      );
+    }
+  }
+
+  private isLow(kind: QuotaWindowKind, window: QuotaWindow): boolean {
+    const remaining = window.remaining ?? Infinity;
+    if (remaining <= 0) {
+      return true;
+    }
+    if (kind === 'quota' && this.policy.softLimit !== undefined && remaining <= this.policy.softLimit) {
+      return true;
+    }
+    return window.limit !== undefined && remaining <= window.limit * this.policy.lowFraction;
+  }
+}
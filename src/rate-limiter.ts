@@ -0,0 +1,139 @@
+import { createHash } from 'crypto';
+
+export interface RateLimitPolicy {
+  requestsPerSecond: number;
+  burst: number;
+  maxConcurrent: number;
+}
+
+export const DEFAULT_RATE_LIMIT_POLICY: RateLimitPolicy = {
+  requestsPerSecond: 10,
+  burst: 20,
+  maxConcurrent: 5
+};
+
+/**
+ * Token bucket combined with a max-in-flight semaphore. Tasks over either
+ * limit wait in a FIFO queue instead of failing.
+ */
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill: number;
+  private inFlight = 0;
+  private readonly waiting: Array<() => void> = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private readonly policy: RateLimitPolicy,
+    private readonly now: () => number = Date.now
+  ) {
+    if (policy.requestsPerSecond <= 0 || policy.burst < 1 || policy.maxConcurrent < 1) {
+      throw new Error('Rate limit values must be positive');
+    }
+
+    this.tokens = policy.burst;
+    this.lastRefill = now();
+  }
+
+  get queueDepth(): number {
+    return this.waiting.length;
+  }
+
+  get activeCount(): number {
+    return this.inFlight;
+  }
+
+  /**
+   * Runs `task` once a token and a concurrency slot are free. Aborting
+   * `signal` while the task is still queued removes it from the queue;
+   * a task that has already started is not affected.
+   */
+  async schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+
+    try {
+      return await task();
+    } finally {
+      this.inFlight--;
+      this.drain();
+    }
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        const index = this.waiting.indexOf(grant);
+        if (index !== -1) {
+          this.waiting.splice(index, 1);
+          reject(signal!.reason);
+        }
+      };
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiting.push(grant);
+      this.drain();
+    });
+  }
+
+  private refill(): void {
+    const now = this.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.policy.burst, this.tokens + elapsed * this.policy.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    while (this.waiting.length > 0 && this.inFlight < this.policy.maxConcurrent) {
+      this.refill();
+
+      if (this.tokens < 1) {
+        this.scheduleDrain((1 - this.tokens) / this.policy.requestsPerSecond * 1000);
+        return;
+      }
+
+      this.tokens--;
+      this.inFlight++;
+      this.waiting.shift()!();
+    }
+  }
+
+  private scheduleDrain(delayMs: number): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, Math.ceil(delayMs));
+  }
+}
+
+const sharedLimiters = new Map<string, RateLimiter>();
+
+/**
+ * Returns the limiter shared by all clients using the same API key and
+ * policy, since the upstream enforces its limits per key.
+ */
+export function getSharedRateLimiter(apiKey: string, policy: RateLimitPolicy): RateLimiter {
+  const key = createHash('sha256')
+    .update(`${apiKey}:${policy.requestsPerSecond}:${policy.burst}:${policy.maxConcurrent}`)
+    .digest('hex');
+
+  let limiter = sharedLimiters.get(key);
+  if (!limiter) {
+    limiter = new RateLimiter(policy);
+    sharedLimiters.set(key, limiter);
+  }
+
+  return limiter;
+}
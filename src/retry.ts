@@ -0,0 +1,128 @@
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  totalBudgetMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  totalBudgetMs: 45000
+};
+
+const RETRYABLE_STATUS_CODES = new Set([429, 502, 503, 504]);
+const RETRYABLE_ERROR_CODES = new Set(['ECONNRESET', 'EPIPE']);
+
+interface RetryableErrorShape {
+  code?: string;
+  response?: {
+    status?: number;
+    headers?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Resolves after `ms`, or rejects with the signal's reason as soon as it is
+ * aborted.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Parses a Retry-After header, which is either a number of seconds or an
+ * HTTP date. Returns the delay in milliseconds, or undefined if unusable.
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const text = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Math.round(parseFloat(text) * 1000);
+  }
+
+  const date = Date.parse(text);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - now);
+}
+
+export function isRetryableError(error: unknown): boolean {
+  const { code, response } = (error || {}) as RetryableErrorShape;
+
+  if (response?.status !== undefined) {
+    return RETRYABLE_STATUS_CODES.has(response.status);
+  }
+
+  return code !== undefined && RETRYABLE_ERROR_CODES.has(code);
+}
+
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const headers = (error as RetryableErrorShape | undefined)?.response?.headers;
+  return headers ? parseRetryAfter(headers['retry-after']) : undefined;
+}
+
+/**
+ * Full-jitter exponential backoff: a random delay between zero and the
+ * capped exponential step for this attempt.
+ */
+export function computeBackoff(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.floor(random() * ceiling);
+}
+
+/**
+ * Runs an idempotent operation, retrying transient failures until it succeeds,
+ * the retry count is used up or the next wait would exceed the time budget.
+ * A Retry-After header from the upstream takes precedence over the backoff.
+ * Aborting `signal` ends the loop: no further attempt is started and a
+ * pending backoff wait is cut short.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  wait: (ms: number, signal?: AbortSignal) => Promise<void> = sleep,
+  signal?: AbortSignal
+): Promise<T> {
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt > policy.maxRetries || !isRetryableError(error) || signal?.aborted) {
+        throw error;
+      }
+
+      const delay = getRetryAfterMs(error) ?? computeBackoff(attempt, policy);
+      if (Date.now() - startedAt + delay > policy.totalBudgetMs) {
+        throw error;
+      }
+
+      await wait(delay, signal);
+    }
+  }
+}
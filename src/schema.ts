@@ -0,0 +1,140 @@
+import { MalformedResponseError } from './errors.js';
+import { ApiEndpoint } from './types.js';
+
+/**
+ * A runtime validator for one value. Returns the checked value or throws a
+ * SchemaViolation naming the dotted path of the offending field.
+ */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/** Unrecognized fields of an object, kept so new API data is not lost. */
+export interface Extra {
+  extra?: Record<string, unknown>;
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+export type ObjectOf<S extends Shape> =
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> };
+
+export class SchemaViolation extends Error {
+  constructor(readonly path: string, readonly expected: string, readonly actual: string) {
+    super(`expected ${expected} at ${path || 'root'}, got ${actual}`);
+    this.name = 'SchemaViolation';
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function childPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function primitive<T>(expected: string, check: (value: unknown) => boolean): () => Schema<T> {
+  return () => (value, path) => {
+    if (!check(value)) {
+      throw new SchemaViolation(path, expected, describeValue(value));
+    }
+    return value as T;
+  };
+}
+
+export const string = primitive<string>('string', value => typeof value === 'string');
+export const number = primitive<number>('number', value => typeof value === 'number' && Number.isFinite(value));
+export const boolean = primitive<boolean>('boolean', value => typeof value === 'boolean');
+
+export function unknown(): Schema<unknown> {
+  return value => value;
+}
+
+/** Accepts a missing field; null is treated as missing. */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : schema(value, path));
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new SchemaViolation(path, 'array', describeValue(value));
+    }
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  };
+}
+
+export function record<T>(entry: Schema<T>): Schema<Record<string, T>> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaViolation(path, 'object', describeValue(value));
+    }
+
+    const result: Record<string, T> = {};
+    for (const [key, field] of Object.entries(value)) {
+      result[key] = entry(field, childPath(path, key));
+    }
+    return result;
+  };
+}
+
+/**
+ * Validates the declared fields of an object. Fields not in the shape are
+ * collected under `extra` unless `keepExtra` is false, in which case they
+ * are dropped.
+ */
+export function object<S extends Shape>(shape: S, options: { keepExtra?: boolean } = {}): Schema<ObjectOf<S> & Extra> {
+  const keepExtra = options.keepExtra ?? true;
+
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaViolation(path, 'object', describeValue(value));
+    }
+
+    const input = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+
+    for (const [key, schema] of Object.entries(shape)) {
+      const field = schema(input[key], childPath(path, key));
+      if (field !== undefined) {
+        result[key] = field;
+      }
+    }
+
+    if (keepExtra) {
+      const extra = Object.keys(input).filter(key => !Object.prototype.hasOwnProperty.call(shape, key));
+      if (extra.length > 0) {
+        result.extra = Object.fromEntries(extra.map(key => [key, input[key]]));
+      }
+    }
+
+    return result as ObjectOf<S> & Extra;
+  };
+}
+
+/**
+ * Validates an API payload, converting a violation into a
+ * MalformedResponseError that names the offending field.
+ */
+export function parseResponse<T>(schema: Schema<T>, data: unknown, endpoint: ApiEndpoint): T {
+  try {
+    return schema(data, '');
+  } catch (error) {
+    if (error instanceof SchemaViolation) {
+      throw new MalformedResponseError(
+        `Malformed response at ${error.path || 'root'}: expected ${error.expected}, got ${error.actual}`,
+        { endpoint, path: error.path, cause: error }
+      );
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,133 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { parseCassetteMode } from './cassette.js';
+import { GuardianIntelClient } from './guardian-intel-client.js';
+import { createLoggingHooks } from './instrumentation.js';
+import { toMcpError } from './mcp-errors.js';
+import { GuardianIntelTools } from './tools.js';
+
+export class GuardianIntelMcpServer {
+  private server: Server;
+  private guardianIntelClient: GuardianIntelClient;
+  private guardianIntelTools: GuardianIntelTools;
+
+  constructor() {
+    this.server = new Server(
+      {
+        name: '@abusix/guardian-intel-mcp-server',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          tools: {},
+        },
+      }
+    );
+
+    const cassetteMode = parseCassetteMode(process.env.ABUSIX_CASSETTE_MODE);
+    const cassetteDir = process.env.ABUSIX_CASSETTE_DIR || './cassettes';
+
+    // Replaying never reaches the API, so demos work without a real key
+    const apiKey = process.env.ABUSIX_API_KEY || (cassetteMode === 'replay' ? 'cassette-replay' : undefined);
+    if (!apiKey) {
+      throw new Error('ABUSIX_API_KEY environment variable is required');
+    }
+
+    if (cassetteMode) {
+      console.error(`Cassette ${cassetteMode} mode: ${cassetteDir}`);
+    }
+
+    this.guardianIntelClient = new GuardianIntelClient({
+      apiKey,
+      baseUrl: process.env.ABUSIX_BASE_URL,
+      network: {
+        proxyUrl: process.env.HTTPS_PROXY || process.env.https_proxy,
+        noProxy: process.env.NO_PROXY || process.env.no_proxy,
+        caFile: process.env.ABUSIX_CA_FILE,
+        clientCertFile: process.env.ABUSIX_CLIENT_CERT,
+        clientKeyFile: process.env.ABUSIX_CLIENT_KEY,
+        clientKeyPassphrase: process.env.ABUSIX_CLIENT_KEY_PASSPHRASE
+      },
+      quota: {
+        softLimit: process.env.ABUSIX_QUOTA_SOFT_LIMIT ? Number(process.env.ABUSIX_QUOTA_SOFT_LIMIT) : undefined
+      },
+      cassette: cassetteMode ? {
+        mode: cassetteMode,
+        dir: cassetteDir,
+        strict: process.env.ABUSIX_CASSETTE_STRICT === '1' || process.env.ABUSIX_CASSETTE_STRICT === 'true'
+      } : undefined,
+      hooks: process.env.DEBUG ? createLoggingHooks() : undefined,
+      onCircuitStateChange: ({ from, to, snapshot }) => {
+        const failureRate = Math.round(snapshot.failureRate * 100);
+        console.error(`Guardian Intel circuit breaker ${from} -> ${to} (failure rate ${failureRate}% over ${snapshot.recentRequests} requests)`);
+      }
+    });
+
+    this.guardianIntelTools = new GuardianIntelTools(this.guardianIntelClient, {
+      cidrMaxHosts: process.env.ABUSIX_CIDR_MAX_HOSTS ? Number(process.env.ABUSIX_CIDR_MAX_HOSTS) : undefined
+    });
+
+    this.setupToolHandlers();
+  }
+
+  private setupToolHandlers(): void {
+    // List available tools
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return {
+        tools: this.guardianIntelTools.getToolDefinitions(),
+      };
+    });
+
+    // Handle tool calls; a cancelled MCP request aborts its API requests
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
+
+      try {
+        const result = await this.guardianIntelTools.executeTool(name, args || {}, extra.signal);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        throw toMcpError(error);
+      }
+    });
+  }
+
+  /**
+   * Checks the API connection with one cheap request. The full diagnostics
+   * probe every endpoint, so they are left to the guardian_intel_status tool.
+   */
+  async checkConnection(): Promise<boolean> {
+    try {
+      const isHealthy = await this.guardianIntelClient.healthCheck();
+      if (isHealthy) {
+        console.error('✓ Connected to Guardian Intel API successfully');
+      } else {
+        console.error('Warning: Unable to connect to Guardian Intel API. Please check your API key and network connection, or run the guardian_intel_status tool for a full report.');
+      }
+      return isHealthy;
+    } catch (error) {
+      console.error('Warning: Guardian Intel API health check failed:', error instanceof Error ? error.message : 'Unknown error');
+      return false;
+    }
+  }
+
+  async run(transport: Transport = new StdioServerTransport()): Promise<void> {
+    await this.checkConnection();
+    await this.server.connect(transport);
+
+    console.error('Guardian Intel MCP Server running on stdio');
+  }
+}
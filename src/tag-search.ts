@@ -0,0 +1,194 @@
+import { TagSummary } from './types.js';
+
+export type TagSearchField = 'name' | 'namespace' | 'intent' | 'category' | 'description';
+
+export interface TagSearchMatch {
+  tag: TagSummary;
+  score: number;
+  /** Fields a query term matched, best first */
+  matched_fields: TagSearchField[];
+  /** Matched field values with the matching parts wrapped in ** */
+  highlights: Partial<Record<Exclude<TagSearchField, 'namespace'>, string>>;
+}
+
+interface TermMatch {
+  field: TagSearchField;
+  score: number;
+  start: number;
+  end: number;
+}
+
+// Weights per kind of match; a tag's score is the sum of its best match per term
+const SCORES = {
+  exactName: 100,
+  namespace: 60,
+  nameSegmentPrefix: 50,
+  nameSubstring: 40,
+  exactLabel: 30,
+  fuzzyName: 25,
+  descriptionWord: 20,
+  descriptionSubstring: 10
+};
+
+/** Levenshtein distance, bounded: returns max + 1 once the distance exceeds `max`. */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// Typos allowed for a term: none for short terms, where fuzzy matching mostly adds noise
+const allowedTypos = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+function matchName(name: string, term: string): TermMatch | undefined {
+  const lower = name.toLowerCase();
+  const namespace = term.endsWith(':') ? term.slice(0, -1) : term;
+
+  if (lower === term) {
+    return { field: 'name', score: SCORES.exactName, start: 0, end: name.length };
+  }
+  if (lower.startsWith(`${namespace}:`)) {
+    return { field: 'namespace', score: SCORES.namespace, start: 0, end: namespace.length };
+  }
+
+  const index = lower.indexOf(term);
+  if (index !== -1) {
+    const atSegment = index === 0 || /[:\-_.]/.test(lower[index - 1]);
+    return {
+      field: 'name',
+      score: atSegment ? SCORES.nameSegmentPrefix : SCORES.nameSubstring,
+      start: index,
+      end: index + term.length
+    };
+  }
+
+  const typos = allowedTypos(term);
+  if (typos === 0) {
+    return undefined;
+  }
+
+  // Compare against each segment, e.g. "brute" and "force" in credentials:brute-force
+  let offset = 0;
+  for (const segment of lower.split(/([:\-_.])/)) {
+    if (segment.length > 1 && editDistance(segment, term, typos) <= typos) {
+      return { field: 'name', score: SCORES.fuzzyName, start: offset, end: offset + segment.length };
+    }
+    offset += segment.length;
+  }
+
+  return undefined;
+}
+
+function matchTerm(tag: TagSummary, term: string): TermMatch[] {
+  const matches: TermMatch[] = [];
+
+  const name = matchName(tag.name, term);
+  if (name) {
+    matches.push(name);
+  }
+
+  for (const field of ['intent', 'category'] as const) {
+    const value = tag[field];
+    if (value && value.toLowerCase() === term) {
+      matches.push({ field, score: SCORES.exactLabel, start: 0, end: value.length });
+    }
+  }
+
+  const description = tag.description?.toLowerCase();
+  const index = description?.indexOf(term) ?? -1;
+  if (description && index !== -1) {
+    const wordStart = index === 0 || /\W/.test(description[index - 1]);
+    const wordEnd = index + term.length === description.length || /\W/.test(description[index + term.length]);
+    matches.push({
+      field: 'description',
+      score: wordStart && wordEnd ? SCORES.descriptionWord : SCORES.descriptionSubstring,
+      start: index,
+      end: index + term.length
+    });
+  }
+
+  return matches;
+}
+
+function highlight(value: string, ranges: Array<[number, number]>): string {
+  const merged = [...ranges].sort((a, b) => a[0] - b[0]).reduce<Array<[number, number]>>((result, range) => {
+    const last = result[result.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      result.push([...range]);
+    }
+    return result;
+  }, []);
+
+  let text = '';
+  let position = 0;
+  for (const [start, end] of merged) {
+    text += `${value.slice(position, start)}**${value.slice(start, end)}**`;
+    position = end;
+  }
+  return text + value.slice(position);
+}
+
+// Namespace matches are highlighted in the name
+const highlightField = (field: TagSearchField) => (field === 'namespace' ? 'name' : field);
+
+/**
+ * Ranks tags against a free-text query. Every whitespace-separated term has
+ * to match the tag somewhere: its name (exactly, as a namespace prefix such
+ * as `scanner:`, as a substring or within a typo or two of a name segment),
+ * its intent or category, or its description. Terms are case-insensitive.
+ */
+export function searchTags(tags: TagSummary[], query: string): TagSearchMatch[] {
+  const terms = [...new Set(query.toLowerCase().split(/\s+/).filter(term => term.length > 0))];
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const results: TagSearchMatch[] = [];
+  for (const tag of tags) {
+    const perTerm = terms.map(term => matchTerm(tag, term));
+    if (perTerm.some(matches => matches.length === 0)) {
+      continue;
+    }
+
+    const all = perTerm.flat();
+    const fields = [...new Set([...all].sort((a, b) => b.score - a.score).map(match => match.field))];
+    const highlights: TagSearchMatch['highlights'] = {};
+    for (const field of new Set(fields.map(highlightField))) {
+      const ranges = all
+        .filter(match => highlightField(match.field) === field)
+        .map(match => [match.start, match.end] as [number, number]);
+      highlights[field] = highlight(tag[field] ?? '', ranges);
+    }
+
+    results.push({
+      tag,
+      score: perTerm.reduce((sum, matches) => sum + Math.max(...matches.map(match => match.score)), 0),
+      matched_fields: fields,
+      highlights
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score || a.tag.name.localeCompare(b.tag.name));
+}
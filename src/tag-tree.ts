@@ -0,0 +1,92 @@
+import { TagSummary } from './types.js';
+
+export const TAG_NAMESPACE_SEPARATOR = ':';
+
+export interface TagTreeNode {
+  /** Last segment of the path, e.g. `brute-force` */
+  name: string;
+  /** Full namespace path, e.g. `credentials:brute-force`; empty for the root */
+  path: string;
+  /** Tags at or below this node */
+  count: number;
+  /** Tags at or below this node per intent */
+  intents: Record<string, number>;
+  /** True when the path itself is a tag name, not only a namespace */
+  is_tag: boolean;
+  children: TagTreeNode[];
+  /** Number of child nodes left out because of the depth limit */
+  collapsed?: number;
+}
+
+export interface TagTreeOptions {
+  /** Namespace to start from, e.g. `scanner` or `scanner:` */
+  root?: string;
+  /** Levels of children to include below the root; deeper nodes are collapsed */
+  depth?: number;
+}
+
+const createNode = (name: string, path: string): TagTreeNode => ({
+  name,
+  path,
+  count: 0,
+  intents: {},
+  is_tag: false,
+  children: []
+});
+
+function countTag(node: TagTreeNode, intent: string): void {
+  node.count++;
+  node.intents[intent] = (node.intents[intent] || 0) + 1;
+}
+
+function sortAndPrune(node: TagTreeNode, depth: number): void {
+  if (depth <= 0 && node.children.length > 0) {
+    node.collapsed = node.children.length;
+    node.children = [];
+    return;
+  }
+
+  node.children.sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  node.children.forEach(child => sortAndPrune(child, depth - 1));
+}
+
+/**
+ * Parses namespaced tag names (`credentials:brute-force`) into a tree. Every
+ * node counts the tags at or below it with an intent breakdown, so a branch
+ * can be summarised without listing its tags. Returns undefined when `root`
+ * names a namespace no tag lives under.
+ */
+export function buildTagTree(tags: TagSummary[], options: TagTreeOptions = {}): TagTreeNode | undefined {
+  const tree = createNode('', '');
+
+  for (const tag of tags) {
+    const intent = tag.intent || 'unknown';
+    let node = tree;
+    countTag(node, intent);
+
+    for (const segment of tag.name.split(TAG_NAMESPACE_SEPARATOR)) {
+      const path = node.path ? `${node.path}${TAG_NAMESPACE_SEPARATOR}${segment}` : segment;
+      let child = node.children.find(candidate => candidate.name === segment);
+      if (!child) {
+        child = createNode(segment, path);
+        node.children.push(child);
+      }
+      node = child;
+      countTag(node, intent);
+    }
+    node.is_tag = true;
+  }
+
+  let root: TagTreeNode | undefined = tree;
+  const rootPath = options.root?.replace(new RegExp(`${TAG_NAMESPACE_SEPARATOR}+$`), '');
+  if (rootPath) {
+    for (const segment of rootPath.split(TAG_NAMESPACE_SEPARATOR)) {
+      root = root?.children.find(child => child.name === segment);
+    }
+  }
+
+  if (root) {
+    sortAndPrune(root, options.depth ?? Infinity);
+  }
+  return root;
+}
@@ -0,0 +1,103 @@
+import { findSpecialRange, IpVersion, parseIp, SpecialRangeKind } from './ip-address.js';
+
+/** One distinct address found in a text, with every line it appears on. */
+export interface ExtractedIp {
+  ip: string;
+  version: IpVersion;
+  /** 1-based line numbers in the original text, ascending */
+  lines: number[];
+  /** Set when the address is in a private, reserved or documentation range */
+  range?: {
+    cidr: string;
+    kind: SpecialRangeKind;
+  };
+}
+
+// Defanging conventions seen in threat reports and tickets. Each entry maps a
+// defanged spelling back to the character it stands for.
+const REFANG_RULES: Array<[RegExp, string]> = [
+  [/\s?[[({]\s*(?:\.|dot)\s*[\])}]\s?/gi, '.'],
+  [/\\\./g, '.'],
+  [/[[({]:[\])}]/g, ':'],
+  [/[[({]:\/\/[\])}]/g, '://'],
+  [/\bh(?:xx|\[xx\]|\*\*)p(s?):\/\//gi, 'http$1://'],
+  [/\bfxp(s?):\/\//gi, 'ftp$1://']
+];
+
+const IPV4_CANDIDATE = /(?<![\d.])\d{1,3}(?:\.\d{1,3}){3}(?!\.?\d)/g;
+// Runs of hex digits, colons and dots with at least two colons, not glued to
+// a word (so Cache::get or std::vector do not count); parseIp decides which
+// of them are addresses (timestamps such as 12:34:56 are not)
+const IPV6_CANDIDATE = /(?<![0-9A-Za-z_])[0-9A-Fa-f:.]*:[0-9A-Fa-f:.]*:[0-9A-Fa-f:.]*(?:%[0-9A-Za-z_.~-]+)?(?![0-9A-Za-z_])/g;
+
+/**
+ * A run may have picked up a separator on either side ("addr:2001:db8::1",
+ * "2001:db8::1: refused" or a full stop), so those are tried trimmed too.
+ */
+function candidateForms(candidate: string): string[] {
+  const trimmed = candidate.replace(/\.+$/, '');
+  const withoutLeading = /^:[^:]/.test(trimmed) ? trimmed.slice(1) : trimmed;
+  const withoutTrailing = /[^:]:$/.test(withoutLeading) ? withoutLeading.slice(0, -1) : withoutLeading;
+  return [trimmed, withoutLeading, withoutTrailing];
+}
+
+/**
+ * Compressed forms with a single group, such as "e::" or "::d" cut from
+ * code, are almost never addresses; only ::, ::1 and mapped forms are kept.
+ */
+function hasEnoughGroups(form: string): boolean {
+  const address = form.split('%')[0];
+  if (!address.includes('::') || address.includes('.') || address === '::' || address === '::1') {
+    return true;
+  }
+  return address.split(':').filter(group => group.length > 0).length >= 2;
+}
+
+/**
+ * Undoes common defanging: 1.2.3[.]4, 1(.)2(dot)3.4, 2001:db8[:]:1,
+ * hxxp:// and fxp://.
+ */
+export function refang(text: string): string {
+  return REFANG_RULES.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+/**
+ * Pulls every IPv4 and IPv6 address out of free text, including defanged
+ * ones. Addresses are canonicalized and deduplicated in order of first
+ * appearance; addresses in special-purpose ranges are kept but marked with
+ * the `range` they belong to.
+ */
+export function extractIps(text: string): ExtractedIp[] {
+  const found = new Map<string, ExtractedIp>();
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = refang(rawLine);
+    const candidates = [...line.matchAll(IPV4_CANDIDATE), ...line.matchAll(IPV6_CANDIDATE)]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map(match => match[0]);
+
+    for (const candidate of candidates) {
+      const parsed = candidateForms(candidate)
+        .filter(hasEnoughGroups)
+        .map(form => parseIp(form))
+        .find(result => result !== null);
+      if (!parsed) {
+        continue;
+      }
+
+      let entry = found.get(parsed.address);
+      if (!entry) {
+        const range = findSpecialRange(parsed);
+        entry = { ip: parsed.address, version: parsed.version, lines: [], ...(range ? { range } : {}) };
+        found.set(parsed.address, entry);
+      }
+
+      const lineNumber = index + 1;
+      if (entry.lines[entry.lines.length - 1] !== lineNumber) {
+        entry.lines.push(lineNumber);
+      }
+    }
+  });
+
+  return [...found.values()];
+}
@@ -1,14 +1,77 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { GuardianIntelClient } from './guardian-intel-client.js';
+import { BLOCKLIST_FORMATS, exportBlocklist, isBlocklistFormat } from './blocklist.js';
+import { TtlCache } from './cache.js';
+import { toCircuitBreakerStatus } from './circuit-breaker.js';
+import { formatDiagnosticsReport, summarizeDiagnostics } from './diagnostics.js';
+import { parseEmailHeaders } from './email-headers.js';
+import { GuardianIntelError, ValidationError } from './errors.js';
+import { cidrHostRange, expandCidr, IP_ADDRESS_PATTERN, normalizeIp, parseCidr } from './ip-address.js';
+import { IpSet } from './ip-set.js';
+import { searchTags } from './tag-search.js';
+import { buildTagTree } from './tag-tree.js';
+import { extractIps } from './text-scan.js';
 import {
+  QueueStatus,
+  BulkLookupError,
+  BulkLookupToolParams,
+  CidrLookupToolParams,
+  EmailHeadersToolParams,
+  ExportBlocklistToolParams,
+  LookupResponse,
   LookupToolParams,
   TagsListToolParams,
   TagDetailsToolParams,
-  TagIpsToolParams
+  TagIpsToolParams,
+  TagMembershipToolParams,
+  TagSearchToolParams,
+  TagSetOpsToolParams,
+  TagSummary,
+  TagTreeToolParams,
+  StatusToolParams,
+  QuotaStatus,
+  QuotaToolParams,
+  ScanTextToolParams,
+  ToolsConfig
 } from './types.js';
 
+const MAX_BULK_LOOKUP_IPS = 500;
+const DEFAULT_CIDR_MAX_HOSTS = 256;
+const TOP_ENTRIES = 10;
+const DEFAULT_TAG_SEARCH_LIMIT = 10;
+const MAX_TAG_SEARCH_LIMIT = 50;
+const MAX_SET_OPS_TAGS = 5;
+const DEFAULT_SET_OPS_SAMPLE = 25;
+const MAX_SET_OPS_SAMPLE = 1000;
+// Per input tag, and for the `full` result
+const MAX_SET_OPS_ENTRIES = 1000000;
+const MAX_SET_OPS_EXPORT = 100000;
+const MAX_BLOCKLIST_ENTRIES = 100000;
+const DEFAULT_TAG_SET_TTL_MS = 15 * 60 * 1000;
+const MAX_CACHED_TAG_SETS = 4;
+const THREAT_LEVEL_ORDER = ['malicious', 'suspicious'];
+const AUTHENTICATION_FAILURES = ['fail', 'softfail', 'permerror'];
+
+interface CachedTagSet {
+  ips: IpSet;
+  snapshot?: string;
+  total?: number;
+  truncated: boolean;
+}
+
 export class GuardianIntelTools {
-  constructor(private client: GuardianIntelClient) {}
+  private readonly cidrMaxHosts: number;
+  private readonly tagSetTtlMs: number;
+  private readonly tagSets = new TtlCache<CachedTagSet>(MAX_CACHED_TAG_SETS);
+
+  constructor(private client: GuardianIntelClient, config: ToolsConfig = {}) {
+    const cidrMaxHosts = config.cidrMaxHosts ?? DEFAULT_CIDR_MAX_HOSTS;
+    if (!Number.isSafeInteger(cidrMaxHosts) || cidrMaxHosts < 1) {
+      throw new Error(`cidrMaxHosts must be a positive integer, got ${config.cidrMaxHosts}`);
+    }
+    this.cidrMaxHosts = cidrMaxHosts;
+    this.tagSetTtlMs = config.tagSetTtlMs ?? DEFAULT_TAG_SET_TTL_MS;
+  }
 
   getToolDefinitions(): Tool[] {
     return [
@@ -20,13 +83,145 @@ export class GuardianIntelTools {
           properties: {
             ip: {
               type: 'string',
-              description: 'The IP address to look up (IPv4 or IPv6)',
-              pattern: '^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$|^(?:[0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}$'
+              description: 'The IP address to look up (IPv4 or IPv6, compressed IPv6 and IPv4-mapped forms accepted)',
+              pattern: IP_ADDRESS_PATTERN
+            },
+            fresh: {
+              type: 'boolean',
+              description: 'Bypass the local cache and fetch fresh data from the API',
+              default: false
             }
           },
           required: ['ip']
         }
       },
+      {
+        name: 'guardian_intel_bulk_lookup',
+        description: 'Look up threat intelligence for many IP addresses in one call. Addresses are canonicalized and deduplicated, failures are reported per IP without failing the batch, and an aggregate summary (counts by threat level, most common tags and ASNs) is included.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ips: {
+              type: 'array',
+              description: `The IP addresses to look up (IPv4 or IPv6, max ${MAX_BULK_LOOKUP_IPS})`,
+              items: {
+                type: 'string'
+              },
+              minItems: 1,
+              maxItems: MAX_BULK_LOOKUP_IPS
+            },
+            concurrency: {
+              type: 'number',
+              description: 'Maximum number of lookups in flight at once',
+              default: 5,
+              minimum: 1,
+              maximum: 20
+            },
+            fresh: {
+              type: 'boolean',
+              description: 'Bypass the local cache and fetch fresh data from the API',
+              default: false
+            },
+            force: {
+              type: 'boolean',
+              description: 'Run even if the remaining API quota is below the configured soft limit',
+              default: false
+            }
+          },
+          required: ['ips']
+        }
+      },
+      {
+        name: 'guardian_intel_cidr_lookup',
+        description: `Look up every address in an IPv4 or IPv6 prefix (CIDR, e.g. 192.0.2.0/28) at once. Returns only the addresses with threat intelligence plus a rollup: malicious and suspicious counts, the tags seen and the earliest and latest sightings. Addresses without intel are only counted. Prefixes are limited to ${this.cidrMaxHosts} host addresses; use a narrower prefix for larger ranges.`,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            cidr: {
+              type: 'string',
+              description: 'The prefix to look up, e.g. "192.0.2.0/24" or "2001:db8::/120". Host bits are ignored'
+            },
+            concurrency: {
+              type: 'number',
+              description: 'Maximum number of lookups in flight at once',
+              default: 5,
+              minimum: 1,
+              maximum: 20
+            },
+            fresh: {
+              type: 'boolean',
+              description: 'Bypass the local cache and fetch fresh data from the API',
+              default: false
+            },
+            force: {
+              type: 'boolean',
+              description: 'Run even if the remaining API quota is below the configured soft limit',
+              default: false
+            }
+          },
+          required: ['cidr']
+        }
+      },
+      {
+        name: 'guardian_intel_scan_text',
+        description: `Find every IPv4 and IPv6 address in pasted free text (logs, alerts, tickets, emails), including defanged forms such as 1.2.3[.]4 or hxxp://, and look them up in bulk. Private, reserved and documentation addresses are listed but not looked up. Findings carry the line numbers where each address appears. Up to ${MAX_BULK_LOOKUP_IPS} addresses are looked up per call.`,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            text: {
+              type: 'string',
+              description: 'The text to scan, exactly as pasted'
+            },
+            concurrency: {
+              type: 'number',
+              description: 'Maximum number of lookups in flight at once',
+              default: 5,
+              minimum: 1,
+              maximum: 20
+            },
+            fresh: {
+              type: 'boolean',
+              description: 'Bypass the local cache and fetch fresh data from the API',
+              default: false
+            },
+            force: {
+              type: 'boolean',
+              description: 'Run even if the remaining API quota is below the configured soft limit',
+              default: false
+            }
+          },
+          required: ['text']
+        }
+      },
+      {
+        name: 'guardian_intel_email_headers',
+        description: 'Analyze raw email headers: parse Received, X-Originating-IP and Authentication-Results into an ordered relay hop chain, look up every public relay IP, mark the hop where the message first entered the receiving infrastructure from outside, and give a verdict on the sending infrastructure with supporting tags.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            headers: {
+              type: 'string',
+              description: 'The raw header block of the message, exactly as shown by "show original" or "view source". A pasted body after the first blank line is ignored'
+            },
+            internalDomains: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Domains of the receiving organisation\'s mail servers. Defaults to the domain of the last receiving host'
+            },
+            fresh: {
+              type: 'boolean',
+              description: 'Bypass the local cache and fetch fresh data from the API',
+              default: false
+            },
+            force: {
+              type: 'boolean',
+              description: 'Run even if the remaining API quota is below the configured soft limit',
+              default: false
+            }
+          },
+          required: ['headers']
+        }
+      },
       {
         name: 'guardian_intel_tags_list',
         description: 'Retrieve all available threat intelligence tags from Guardian Intel. Tags categorize different types of threats, tools, activities, and actors.',
@@ -37,10 +232,78 @@ export class GuardianIntelTools {
               type: 'boolean',
               description: 'Whether to include detailed descriptions for each tag',
               default: false
+            },
+            format: {
+              type: 'string',
+              enum: ['flat', 'tree'],
+              description: '"flat" lists every tag; "tree" groups tags by namespace (e.g. credentials:brute-force under credentials) with counts and intent breakdowns per branch',
+              default: 'flat'
+            },
+            fresh: {
+              type: 'boolean',
+              description: 'Bypass the local cache and fetch fresh data from the API',
+              default: false
             }
           }
         }
       },
+      {
+        name: 'guardian_intel_tag_tree',
+        description: 'Browse the threat intelligence tag taxonomy as a namespace tree, e.g. everything under "scanner:", with the number of tags and an intent breakdown for every branch. Cheaper than listing every tag when exploring.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            root: {
+              type: 'string',
+              description: 'Namespace to start from, e.g. "scanner" or "credentials:". Omit for the whole taxonomy'
+            },
+            depth: {
+              type: 'number',
+              description: 'Levels below the root to expand; deeper branches are collapsed to their counts. Omit to expand everything',
+              minimum: 1
+            },
+            fresh: {
+              type: 'boolean',
+              description: 'Bypass the local cache and fetch fresh data from the API',
+              default: false
+            }
+          }
+        }
+      },
+      {
+        name: 'guardian_intel_tag_search',
+        description: 'Search threat intelligence tags by keyword instead of loading the whole list. Matches tag names (exact, namespace prefixes such as "scanner:", substrings and small typos), intent, category and descriptions, and returns ranked results with the matching parts highlighted in **bold**. Use it to find the exact tag name for guardian_intel_tag_details or guardian_intel_tag_ips.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description: 'Search terms, e.g. "brute force", "scanner:" or "botnet malicious". Every term has to match'
+            },
+            intent: {
+              type: 'string',
+              description: 'Only return tags with this intent, e.g. "malicious" or "suspicious"'
+            },
+            category: {
+              type: 'string',
+              description: 'Only return tags in this category, e.g. "activity", "tool" or "actor"'
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of results to return',
+              default: DEFAULT_TAG_SEARCH_LIMIT,
+              minimum: 1,
+              maximum: MAX_TAG_SEARCH_LIMIT
+            },
+            fresh: {
+              type: 'boolean',
+              description: 'Bypass the local cache and fetch fresh data from the API',
+              default: false
+            }
+          },
+          required: ['query']
+        }
+      },
       {
         name: 'guardian_intel_tag_details',
         description: 'Get detailed information about a specific threat intelligence tag, including its description, references, and timeline of activities.',
@@ -51,6 +314,11 @@ export class GuardianIntelTools {
               type: 'string',
               description: 'The name of the tag to look up (e.g., "credentials:brute-force")',
               minLength: 1
+            },
+            fresh: {
+              type: 'boolean',
+              description: 'Bypass the local cache and fetch fresh data from the API',
+              default: false
             }
           },
           required: ['tagName']
@@ -87,35 +355,234 @@ export class GuardianIntelTools {
           },
           required: ['tagName']
         }
+      },
+      {
+        name: 'guardian_intel_tag_membership',
+        description: `Check whether up to ${MAX_BULK_LOOKUP_IPS} IP addresses belong to a tag without listing the tag. Answers from each address's lookup tags, and only for addresses whose lookup failed or found nothing from the tag's full IP list, which is walked once on a pinned snapshot and cached. Reports which source answered for every address. Use this instead of guardian_intel_tag_ips with a large limit.`,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            tagName: {
+              type: 'string',
+              description: 'Name of the tag, e.g. "credentials:brute-force"'
+            },
+            ips: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'The IP addresses to check',
+              minItems: 1,
+              maxItems: MAX_BULK_LOOKUP_IPS
+            },
+            fresh: {
+              type: 'boolean',
+              description: 'Bypass the local caches and fetch fresh data from the API',
+              default: false
+            },
+            force: {
+              type: 'boolean',
+              description: 'Run even if the remaining API quota is below the configured soft limit',
+              default: false
+            }
+          },
+          required: ['tagName', 'ips']
+        }
+      },
+      {
+        name: 'guardian_intel_tag_set_ops',
+        description: `Combine the IP lists of ${MAX_SET_OPS_TAGS} tags at most on the server side without pulling them into the conversation: intersection (IPs in every tag, e.g. brute-forcing SSH and running a botnet), union (IPs in any tag) or difference (IPs in the first tag but none of the others). Returns the count, a sample and per-tag snapshot details, or the full result on request.`,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            operation: {
+              type: 'string',
+              enum: ['intersection', 'union', 'difference'],
+              description: 'How to combine the tags; difference subtracts every later tag from the first'
+            },
+            tags: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Tag names, e.g. ["credentials:brute-force", "botnet:mirai"]',
+              minItems: 2,
+              maxItems: MAX_SET_OPS_TAGS
+            },
+            sampleSize: {
+              type: 'number',
+              description: 'Number of resulting addresses to include as a sample',
+              default: DEFAULT_SET_OPS_SAMPLE,
+              minimum: 0,
+              maximum: MAX_SET_OPS_SAMPLE
+            },
+            full: {
+              type: 'boolean',
+              description: `Return every resulting address (up to ${MAX_SET_OPS_EXPORT}) instead of a sample`,
+              default: false
+            },
+            force: {
+              type: 'boolean',
+              description: 'Run even if the remaining API quota is below the configured soft limit',
+              default: false
+            }
+          },
+          required: ['operation', 'tags']
+        }
+      },
+      {
+        name: 'guardian_intel_export_blocklist',
+        description: `Export the complete IP list of a tag as a ready-to-load blocklist: plain text, CSV, ipset restore, nftables, iptables, pf table, Suricata IP reputation, Snort reputation list or Palo Alto EDL. Walks every page on one snapshot and starts with a header comment naming the tag, snapshot and generation time. Returns up to ${MAX_BLOCKLIST_ENTRIES} entries; use the export-blocklist CLI command for larger tags.`,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            tagName: {
+              type: 'string',
+              description: 'Name of the tag, e.g. "credentials:brute-force"'
+            },
+            format: {
+              type: 'string',
+              enum: [...BLOCKLIST_FORMATS],
+              description: 'txt, csv, ipset, nftables, iptables, pf, suricata, snort or edl (Palo Alto external dynamic list)'
+            },
+            setName: {
+              type: 'string',
+              description: 'ipset, nftables set, iptables chain or pf table name: letters, digits and underscores, at most 28 characters (31 for pf). Defaults to one derived from the tag',
+              pattern: '^[A-Za-z0-9_]+$'
+            },
+            category: {
+              type: 'number',
+              description: 'Suricata reputation category id',
+              default: 1,
+              minimum: 1
+            },
+            score: {
+              type: 'number',
+              description: 'Suricata reputation score',
+              default: 127,
+              minimum: 0,
+              maximum: 127
+            },
+            force: {
+              type: 'boolean',
+              description: 'Run even if the remaining API quota is below the configured soft limit',
+              default: false
+            }
+          },
+          required: ['tagName', 'format']
+        }
+      },
+      {
+        name: 'guardian_intel_status',
+        description: 'Diagnose the connection to Guardian Intel: DNS, TCP and TLS reachability, per-endpoint latency, API key validity, rate limit headers, client version and base URL, plus circuit breaker state, cache usage and rate limiter backlog. Use it when lookups fail, fail fast or seem slow.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            diagnose: {
+              type: 'boolean',
+              description: 'Probe the network and the API endpoints (default: true). Set to false to only report local state without sending requests.',
+              default: true
+            }
+          }
+        }
+      },
+      {
+        name: 'guardian_intel_quota',
+        description: 'Show the remaining Guardian Intel API quota as last reported by the API: limit, remaining requests, reset time and whether the soft limit for bulk and export operations has been reached. Check it before large bulk lookups or exports.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            refresh: {
+              type: 'boolean',
+              description: 'Send one lightweight request first so the numbers are current (uses one request of quota)',
+              default: false
+            }
+          }
+        }
       }
     ];
   }
 
-  async executeTool(name: string, args: Record<string, unknown>): Promise<Record<string, unknown>> {
+  /**
+   * Runs a tool. Aborting `signal` (the MCP request's cancellation) cancels
+   * the client requests it issues and stops multi-request operations.
+   */
+  async executeTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<Record<string, unknown>> {
     try {
-      switch (name) {
-        case 'guardian_intel_lookup':
-          return await this.lookupIp(args as unknown as LookupToolParams);
-        
-        case 'guardian_intel_tags_list':
-          return await this.getTagsList(args as unknown as TagsListToolParams);
-        
-        case 'guardian_intel_tag_details':
-          return await this.getTagDetails(args as unknown as TagDetailsToolParams);
-        
-        case 'guardian_intel_tag_ips':
-          return await this.getTagIps(args as unknown as TagIpsToolParams);
-        
-        default:
-          throw new Error(`Unknown tool: ${name}`);
-      }
+      return this.withQuotaWarning(await this.runTool(name, args, signal));
     } catch (error) {
+      // Typed client errors are passed through so the server can map them to MCP error codes
+      if (error instanceof GuardianIntelError) {
+        throw error;
+      }
       throw new Error(`Tool execution failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  private async lookupIp(params: LookupToolParams) {
-    const response = await this.client.lookupIp(params.ip);
+  private async runTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<Record<string, unknown>> {
+    switch (name) {
+      case 'guardian_intel_lookup':
+        return await this.lookupIp(args as unknown as LookupToolParams, signal);
+
+      case 'guardian_intel_bulk_lookup':
+        return await this.bulkLookup(args as unknown as BulkLookupToolParams, signal);
+
+      case 'guardian_intel_cidr_lookup':
+        return await this.cidrLookup(args as unknown as CidrLookupToolParams, signal);
+
+      case 'guardian_intel_scan_text':
+        return await this.scanText(args as unknown as ScanTextToolParams, signal);
+
+      case 'guardian_intel_email_headers':
+        return await this.emailHeaders(args as unknown as EmailHeadersToolParams, signal);
+
+      case 'guardian_intel_tags_list':
+        return await this.getTagsList(args as unknown as TagsListToolParams, signal);
+
+      case 'guardian_intel_tag_tree':
+        return await this.getTagTree(args as unknown as TagTreeToolParams, signal);
+
+      case 'guardian_intel_tag_search':
+        return await this.searchTags(args as unknown as TagSearchToolParams, signal);
+
+      case 'guardian_intel_tag_details':
+        return await this.getTagDetails(args as unknown as TagDetailsToolParams, signal);
+
+      case 'guardian_intel_tag_ips':
+        return await this.getTagIps(args as unknown as TagIpsToolParams, signal);
+
+      case 'guardian_intel_tag_membership':
+        return await this.tagMembership(args as unknown as TagMembershipToolParams, signal);
+
+      case 'guardian_intel_tag_set_ops':
+        return await this.tagSetOps(args as unknown as TagSetOpsToolParams, signal);
+
+      case 'guardian_intel_export_blocklist':
+        return await this.exportBlocklist(args as unknown as ExportBlocklistToolParams, signal);
+
+      case 'guardian_intel_status':
+        return await this.getStatus(args as StatusToolParams, signal);
+
+      case 'guardian_intel_quota':
+        return await this.getQuota(args as QuotaToolParams, signal);
+
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  /**
+   * Adds a `quota` block to a tool result when the remaining allowance is
+   * low, so the model can hold back on further calls.
+   */
+  private withQuotaWarning(result: Record<string, unknown>): Record<string, unknown> {
+    const quota = this.client.getQuotaStatus();
+    if (!quota?.low || 'quota' in result) {
+      return result;
+    }
+
+    return { ...result, quota: { ...quota, message: this.describeQuota(quota) } };
+  }
+
+  private async lookupIp(params: LookupToolParams, signal?: AbortSignal) {
+    const queue = this.getQueueStatus();
+    const response = await this.client.lookupIp(params.ip, { fresh: params.fresh, signal });
     
     return {
       ip: response.ip,
@@ -128,15 +595,314 @@ export class GuardianIntelTools {
       asn: response.asn ? {
         number: response.asn.asn,
         name: response.asn.name,
-        country: response.asn.countryCode
+        country: response.asn.countryCode,
+        extra: response.asn.extra
       } : null,
       observed_activity: response.observed_activity,
-      summary: this.generateThreatSummary(response)
+      extra: response.extra,
+      summary: this.generateThreatSummary(response),
+      cache: response.cache,
+      queue
+    };
+  }
+
+  private async bulkLookup(params: BulkLookupToolParams, signal?: AbortSignal) {
+    if (!Array.isArray(params.ips) || params.ips.length === 0) {
+      throw new ValidationError('ips must be a non-empty array of IP addresses');
+    }
+
+    if (params.ips.length > MAX_BULK_LOOKUP_IPS) {
+      throw new ValidationError(`Bulk lookup is limited to ${MAX_BULK_LOOKUP_IPS} IP addresses per call`);
+    }
+
+    const queue = this.getQueueStatus();
+    const response = await this.client.lookupIps(params.ips, {
+      concurrency: params.concurrency,
+      fresh: params.fresh,
+      force: params.force,
+      signal
+    });
+
+    return {
+      requested: response.requested,
+      unique: response.unique,
+      succeeded: response.results.length,
+      failed: response.errors.length,
+      results: response.results.map(result => ({
+        ip: result.ip,
+        threat_level: result.threat_level || 'unknown',
+        confidence: result.confidence || 'low',
+        tags: result.tags || [],
+        asn: result.asn ? {
+          number: result.asn.asn,
+          name: result.asn.name,
+          country: result.asn.countryCode
+        } : null,
+        last_seen: result.last_seen
+      })),
+      errors: response.errors,
+      aggregate: this.generateBulkAggregate(response.results),
+      summary: this.generateBulkSummary(response.results, response.errors.length),
+      queue
+    };
+  }
+
+  /**
+   * Expands a prefix and looks its hosts up through the bulk path. Addresses
+   * the API has no intelligence for (404, or no tags and no verdict) are
+   * collapsed into `no_intel`.
+   */
+  private async cidrLookup(params: CidrLookupToolParams, signal?: AbortSignal) {
+    const cidr = parseCidr(params.cidr);
+    if (!cidr) {
+      throw new ValidationError('cidr must be an IPv4 or IPv6 prefix such as 192.0.2.0/24');
+    }
+
+    const { count } = cidrHostRange(cidr);
+    if (count > BigInt(this.cidrMaxHosts)) {
+      throw new ValidationError(
+        `${cidr.cidr} has ${count} host addresses, more than the limit of ${this.cidrMaxHosts}. Split it into narrower prefixes`
+      );
+    }
+
+    const queue = this.getQueueStatus();
+    const response = await this.client.lookupIps([...expandCidr(cidr)], {
+      concurrency: params.concurrency,
+      fresh: params.fresh,
+      force: params.force,
+      signal
+    });
+
+    const hits = response.results.filter(result => this.hasIntel(result));
+    const notFound = response.errors.filter(error => error.status === 404);
+    const errors: BulkLookupError[] = response.errors.filter(error => error.status !== 404);
+    const noIntel = response.results.length - hits.length + notFound.length;
+    const levels = this.getIntentStats(hits.map(hit => ({ intent: hit.threat_level })));
+    const sightings = hits.flatMap(hit => [hit.first_seen, hit.last_seen]).filter((date): date is string => !!date).sort();
+    const tagCounts: Record<string, number> = {};
+    hits.forEach(hit => (hit.tags || []).forEach(tag => {
+      tagCounts[tag] = (tagCounts[tag] || 0) + 1;
+    }));
+
+    let summary = `${cidr.cidr}: ${hits.length} of ${response.unique} address(es) have threat intelligence ` +
+      `(${levels.malicious || 0} malicious, ${levels.suspicious || 0} suspicious)`;
+    if (errors.length > 0) {
+      summary += `. ${errors.length} address(es) could not be looked up`;
+    }
+
+    return {
+      cidr: cidr.cidr,
+      version: cidr.version,
+      hosts_checked: response.unique,
+      hits: hits.map(hit => ({
+        ip: hit.ip,
+        threat_level: hit.threat_level || 'unknown',
+        tags: hit.tags || [],
+        first_seen: hit.first_seen,
+        last_seen: hit.last_seen,
+        asn: hit.asn ? { number: hit.asn.asn, name: hit.asn.name, country: hit.asn.countryCode } : null
+      })),
+      no_intel: noIntel,
+      errors,
+      rollup: {
+        malicious: levels.malicious || 0,
+        suspicious: levels.suspicious || 0,
+        tags: Object.entries(tagCounts)
+          .sort(([, a], [, b]) => b - a)
+          .map(([tag, count]) => ({ tag, count })),
+        first_seen: sightings[0],
+        last_seen: sightings[sightings.length - 1]
+      },
+      summary,
+      queue
+    };
+  }
+
+  private async scanText(params: ScanTextToolParams, signal?: AbortSignal) {
+    if (typeof params.text !== 'string' || params.text.trim().length === 0) {
+      throw new ValidationError('text must be a non-empty string');
+    }
+
+    const extracted = extractIps(params.text);
+    const routable = extracted.filter(entry => !entry.range);
+    const toLookUp = routable.slice(0, MAX_BULK_LOOKUP_IPS);
+    const lines = new Map(extracted.map(entry => [entry.ip, entry.lines]));
+
+    const queue = this.getQueueStatus();
+    const response = toLookUp.length > 0
+      ? await this.client.lookupIps(toLookUp.map(entry => entry.ip), {
+        concurrency: params.concurrency,
+        fresh: params.fresh,
+        force: params.force,
+        signal
+      })
+      : { results: [], errors: [], requested: 0, unique: 0 };
+
+    const rank = (level?: string) => {
+      const index = THREAT_LEVEL_ORDER.indexOf(level ?? '');
+      return index === -1 ? THREAT_LEVEL_ORDER.length : index;
+    };
+    const findings = response.results
+      .filter(result => this.hasIntel(result))
+      .sort((a, b) => rank(a.threat_level) - rank(b.threat_level));
+    const noIntel = [
+      ...response.results.filter(result => !this.hasIntel(result)).map(result => result.ip),
+      ...response.errors.filter(error => error.status === 404).map(error => error.ip)
+    ];
+    const errors = response.errors.filter(error => error.status !== 404);
+    const levels = this.getIntentStats(findings.map(finding => ({ intent: finding.threat_level })));
+    const notLookedUp = routable.length - toLookUp.length;
+
+    let summary = extracted.length === 0
+      ? 'No IP addresses found in the text'
+      : `Found ${extracted.length} IP address(es): ${levels.malicious || 0} malicious, ${levels.suspicious || 0} suspicious, ` +
+        `${noIntel.length} without threat intelligence, ${extracted.length - routable.length} private or reserved`;
+    if (errors.length > 0) {
+      summary += `. ${errors.length} address(es) could not be looked up`;
+    }
+    if (notLookedUp > 0) {
+      summary += `. ${notLookedUp} address(es) beyond the first ${MAX_BULK_LOOKUP_IPS} were not looked up`;
+    }
+
+    return {
+      addresses_found: extracted.length,
+      looked_up: toLookUp.length,
+      findings: findings.map(finding => ({
+        ip: finding.ip,
+        lines: lines.get(finding.ip) ?? [],
+        threat_level: finding.threat_level || 'unknown',
+        confidence: finding.confidence || 'low',
+        tags: finding.tags || [],
+        last_seen: finding.last_seen,
+        asn: finding.asn ? { number: finding.asn.asn, name: finding.asn.name, country: finding.asn.countryCode } : null
+      })),
+      no_intel: noIntel.map(ip => ({ ip, lines: lines.get(ip) ?? [] })),
+      skipped: extracted
+        .filter(entry => entry.range)
+        .map(entry => ({ ip: entry.ip, lines: entry.lines, range: entry.range!.kind, cidr: entry.range!.cidr })),
+      errors: errors.map(error => ({ ...error, lines: lines.get(error.ip) ?? [] })),
+      not_looked_up: notLookedUp,
+      summary,
+      queue
+    };
+  }
+
+  /**
+   * Builds the relay chain and looks up every public relay. The verdict rests
+   * on the first external hop, the one address the receiving side saw for
+   * itself; older hops and other headers are written by servers the
+   * recipient does not control and only raise the verdict to suspicious.
+   */
+  private async emailHeaders(params: EmailHeadersToolParams, signal?: AbortSignal) {
+    if (typeof params.headers !== 'string' || params.headers.trim().length === 0) {
+      throw new ValidationError('headers must be a non-empty string');
+    }
+
+    const parsed = parseEmailHeaders(params.headers, params.internalDomains);
+    if (parsed.hops.length === 0) {
+      throw new ValidationError('No Received or X-Originating-IP headers found. Paste the full header block of the message');
+    }
+
+    const relayIps = [...new Set(parsed.hops.filter(hop => hop.ip && !hop.range).map(hop => hop.ip!))];
+    const queue = this.getQueueStatus();
+    const response = relayIps.length > 0
+      ? await this.client.lookupIps(relayIps, { fresh: params.fresh, force: params.force, signal })
+      : { results: [], errors: [], requested: 0, unique: 0 };
+
+    const intel = new Map(response.results.map(result => [result.ip, result]));
+    const errors = response.errors.filter(error => error.status !== 404);
+    const hops = parsed.hops.map(hop => {
+      const result = hop.ip ? intel.get(hop.ip) : undefined;
+      return {
+        ...hop,
+        intel: result && this.hasIntel(result)
+          ? { threat_level: result.threat_level || 'unknown', confidence: result.confidence || 'low', tags: result.tags || [] }
+          : null
+      };
+    });
+
+    const sending = hops.find(hop => hop.first_external);
+    const flagged = hops.filter(hop => !hop.internal && THREAT_LEVEL_ORDER.includes(hop.intel?.threat_level ?? ''));
+    // The topmost Authentication-Results header is the one added by the receiving side
+    const authentication = parsed.authentication[0];
+    const authFailures = (authentication?.results ?? [])
+      .filter(result => ['spf', 'dkim', 'dmarc'].includes(result.method) && AUTHENTICATION_FAILURES.includes(result.result));
+
+    const reasons: string[] = [];
+    if (sending?.intel) {
+      reasons.push(`Sending IP ${sending.ip} is ${sending.intel.threat_level}${sending.intel.tags.length > 0 ? ` (${sending.intel.tags.join(', ')})` : ''}`);
+    }
+    flagged.filter(hop => hop !== sending).forEach(hop => {
+      reasons.push(`Earlier relay ${hop.ip} (hop ${hop.hop}) is ${hop.intel!.threat_level}`);
+    });
+    authFailures.forEach(result => {
+      reasons.push(`${result.method.toUpperCase()} ${result.result}`);
+    });
+
+    let level: string;
+    if (!sending) {
+      level = 'unknown';
+      reasons.push('No relay outside the receiving infrastructure has a public IP address');
+    } else if (sending.intel?.threat_level === 'malicious') {
+      level = 'malicious';
+    } else if (sending.intel?.threat_level === 'suspicious' || flagged.length > 0 || authFailures.length > 0) {
+      level = 'suspicious';
+    } else {
+      level = 'no_known_threats';
+    }
+
+    const tags = [...new Set([sending, ...flagged].flatMap(hop => hop?.intel?.tags ?? []))];
+    const summary = sending
+      ? `Entered the receiving infrastructure from ${sending.ip} (hop ${sending.hop} of ${hops.length}): ${level.replace(/_/g, ' ')}` +
+        (reasons.length > 0 ? `. ${reasons.join('; ')}` : '')
+      : `No external sending IP found in ${hops.length} hop(s)`;
+
+    return {
+      hops,
+      first_external_hop: sending?.hop ?? null,
+      internal_domains: parsed.internal_domains,
+      authentication: parsed.authentication,
+      verdict: {
+        level,
+        sending_ip: sending?.ip ?? null,
+        tags,
+        reasons
+      },
+      errors,
+      summary,
+      queue
     };
   }
 
-  private async getTagsList(params: TagsListToolParams) {
-    const response = await this.client.getTags(params.includeDescriptions);
+  private hasIntel(result: LookupResponse): boolean {
+    return (result.tags?.length ?? 0) > 0 ||
+      result.threat_level === 'malicious' ||
+      result.threat_level === 'suspicious';
+  }
+
+  private async getTagsList(params: TagsListToolParams, signal?: AbortSignal) {
+    const format = params.format ?? 'flat';
+    if (format !== 'flat' && format !== 'tree') {
+      throw new ValidationError('format must be "flat" or "tree"');
+    }
+
+    const queue = this.getQueueStatus();
+    if (format === 'tree') {
+      // Intent breakdowns need the tag details, so the tree always loads descriptions
+      const response = await this.client.getTags(true, { fresh: params.fresh, signal });
+      const details: TagSummary[] = response.tag_details ?? response.tags.map(name => ({ name }));
+
+      return {
+        total_tags: response.tags.length,
+        tree: buildTagTree(details)!.children,
+        categories: this.getCategoryStats(details),
+        intents: this.getIntentStats(details),
+        cache: response.cache,
+        queue
+      };
+    }
+
+    const response = await this.client.getTags(params.includeDescriptions, { fresh: params.fresh, signal });
     
     return {
       total_tags: response.tags.length,
@@ -145,33 +911,106 @@ export class GuardianIntelTools {
         name: tag.name,
         intent: tag.intent,
         category: tag.category,
-        description: tag.description || null
+        description: tag.description || null,
+        extra: tag.extra
       })) : [],
       categories: response.tag_details ? this.getCategoryStats(response.tag_details) : {},
-      intents: response.tag_details ? this.getIntentStats(response.tag_details) : {}
+      intents: response.tag_details ? this.getIntentStats(response.tag_details) : {},
+      cache: response.cache,
+      queue
     };
   }
 
-  private async getTagDetails(params: TagDetailsToolParams) {
-    const response = await this.client.getTagDetails(params.tagName);
+  private async getTagTree(params: TagTreeToolParams, signal?: AbortSignal) {
+    if (params.depth !== undefined && (!Number.isInteger(params.depth) || params.depth < 1)) {
+      throw new ValidationError('depth must be a positive integer');
+    }
+
+    const queue = this.getQueueStatus();
+    const response = await this.client.getTags(true, { fresh: params.fresh, signal });
+    const details: TagSummary[] = response.tag_details ?? response.tags.map(name => ({ name }));
+    const tree = buildTagTree(details, { root: params.root, depth: params.depth });
+    if (!tree) {
+      throw new ValidationError(`No tags found under namespace "${params.root}". Call guardian_intel_tag_tree without a root to see the top-level namespaces`);
+    }
+
+    return {
+      root: tree.path || null,
+      total_tags: tree.count,
+      intents: tree.intents,
+      tree: tree.children,
+      is_tag: tree.is_tag,
+      cache: response.cache,
+      queue
+    };
+  }
+
+  /**
+   * Searches the full tag list, which the client caches like any other
+   * getTags call, so repeated searches cost no extra requests.
+   */
+  private async searchTags(params: TagSearchToolParams, signal?: AbortSignal) {
+    if (typeof params.query !== 'string' || params.query.trim().length === 0) {
+      throw new ValidationError('query must be a non-empty string');
+    }
+
+    const limit = params.limit ?? DEFAULT_TAG_SEARCH_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TAG_SEARCH_LIMIT) {
+      throw new ValidationError(`limit must be an integer between 1 and ${MAX_TAG_SEARCH_LIMIT}`);
+    }
+
+    const queue = this.getQueueStatus();
+    const response = await this.client.getTags(true, { fresh: params.fresh, signal });
+    const matchesFilter = (value: string | undefined, filter: string | undefined) =>
+      filter === undefined || value?.toLowerCase() === filter.toLowerCase();
+    const candidates = (response.tag_details ?? [])
+      .filter(tag => matchesFilter(tag.intent, params.intent) && matchesFilter(tag.category, params.category));
+    const matches = searchTags(candidates, params.query);
+
+    return {
+      query: params.query,
+      total_matches: matches.length,
+      results: matches.slice(0, limit).map(match => ({
+        name: match.tag.name,
+        intent: match.tag.intent,
+        category: match.tag.category,
+        description: match.tag.description || null,
+        score: match.score,
+        matched_fields: match.matched_fields,
+        highlights: match.highlights
+      })),
+      truncated: matches.length > limit,
+      cache: response.cache,
+      queue
+    };
+  }
+
+  private async getTagDetails(params: TagDetailsToolParams, signal?: AbortSignal) {
+    const queue = this.getQueueStatus();
+    const response = await this.client.getTagDetails(params.tagName, { fresh: params.fresh, signal });
     
     return {
       tag: {
         name: response.tag,
         intent: response.intent,
         category: response.category,
-        description: response.description
+        description: response.description,
+        extra: response.extra
       },
       confidence: response.confidence,
-      threat_context: this.generateTagContext(response)
+      threat_context: this.generateTagContext(response),
+      cache: response.cache,
+      queue
     };
   }
 
-  private async getTagIps(params: TagIpsToolParams) {
+  private async getTagIps(params: TagIpsToolParams, signal?: AbortSignal) {
+    const queue = this.getQueueStatus();
     const response = await this.client.getTagIps(params.tagName, {
       offset: params.offset,
       limit: params.limit,
-      snapshot: params.snapshot
+      snapshot: params.snapshot,
+      signal
     });
     
     return {
@@ -182,9 +1021,311 @@ export class GuardianIntelTools {
         returned: response.ips.length,
         offset: response.offset || 0,
         limit: response.limit || 1000,
-        has_more: (response.offset || 0) + response.ips.length < (response.total || 0)
+        has_more: (response.offset || 0) + response.ips.length < (response.total || 0),
+        snapshot: response.snapshot
       },
-      summary: `Found ${response.ips.length} IP addresses associated with tag '${response.tag}'`
+      extra: response.extra,
+      summary: `Found ${response.ips.length} IP addresses associated with tag '${response.tag}'`,
+      queue
+    };
+  }
+
+  /**
+   * A lookup listing the tag settles membership on its own. Everything else
+   * (no listing, no intel, failed lookups) is checked against the tag's
+   * complete IP list, built once per snapshot and kept for `tagSetTtlMs`.
+   */
+  private async tagMembership(params: TagMembershipToolParams, signal?: AbortSignal) {
+    if (typeof params.tagName !== 'string' || params.tagName.trim().length === 0) {
+      throw new ValidationError('tagName must be a non-empty string');
+    }
+    if (!Array.isArray(params.ips) || params.ips.length === 0 || params.ips.length > MAX_BULK_LOOKUP_IPS) {
+      throw new ValidationError(`ips must contain between 1 and ${MAX_BULK_LOOKUP_IPS} addresses`);
+    }
+
+    const invalid = params.ips.filter(ip => !normalizeIp(ip));
+    const ips = [...new Set(params.ips.map(ip => normalizeIp(ip)).filter((ip): ip is string => ip !== null))];
+    const tag = params.tagName.toLowerCase();
+
+    const queue = this.getQueueStatus();
+    const response = ips.length > 0
+      ? await this.client.lookupIps(ips, { fresh: params.fresh, force: params.force, signal })
+      : { results: [], errors: [], requested: 0, unique: 0 };
+    // A successful lookup lists every tag of the address, so it settles the
+    // question either way; only failed lookups and 404s need the tag list
+    const listedByLookup = new Map(response.results.map(result =>
+      [result.ip, (result.tags || []).some(name => name.toLowerCase() === tag)]));
+
+    const unresolved = ips.filter(ip => !listedByLookup.has(ip));
+    let tagList: (CachedTagSet & { cached: boolean; age_seconds: number }) | undefined;
+    if (unresolved.length > 0) {
+      tagList = await this.getTagSet(params.tagName, params.fresh, params.force, signal);
+    }
+
+    const results = ips.map(ip => listedByLookup.has(ip)
+      ? { ip, member: listedByLookup.get(ip)!, source: 'lookup' }
+      : { ip, member: tagList!.ips.has(ip), source: 'tag_list' });
+    const members = results.filter(result => result.member).length;
+
+    let summary = `${members} of ${ips.length} address(es) are in ${params.tagName}`;
+    if (tagList?.truncated) {
+      summary += `. Only the first ${MAX_SET_OPS_ENTRIES} entries of the tag were read, so addresses reported as not in it may still be`;
+    }
+    if (invalid.length > 0) {
+      summary += `. ${invalid.length} invalid address(es) were skipped`;
+    }
+
+    return {
+      tag: params.tagName,
+      results,
+      members,
+      invalid,
+      tag_list: tagList
+        ? {
+          snapshot: tagList.snapshot,
+          total: tagList.total,
+          truncated: tagList.truncated,
+          cached: tagList.cached,
+          age_seconds: tagList.age_seconds
+        }
+        : null,
+      summary,
+      queue
+    };
+  }
+
+  private async getTagSet(tagName: string, fresh?: boolean, force?: boolean, signal?: AbortSignal) {
+    const cached = fresh ? undefined : this.tagSets.get(tagName);
+    if (cached) {
+      return { ...cached.value, cached: true, age_seconds: Math.floor(cached.ageMs / 1000) };
+    }
+
+    const ips = new IpSet();
+    const walk = await this.walkTag(tagName, ip => ips.add(ip), force, signal);
+    const tagSet: CachedTagSet = { ips, snapshot: walk.snapshot, total: walk.total, truncated: walk.truncated };
+    this.tagSets.set(tagName, tagSet, this.tagSetTtlMs);
+
+    return { ...tagSet, cached: false, age_seconds: 0 };
+  }
+
+  /**
+   * Streams each tag page by page into an IpSet, so only the running result
+   * and never a whole second list is held in memory.
+   */
+  private async tagSetOps(params: TagSetOpsToolParams, signal?: AbortSignal) {
+    if (!['intersection', 'union', 'difference'].includes(params.operation)) {
+      throw new ValidationError('operation must be "intersection", "union" or "difference"');
+    }
+    if (!Array.isArray(params.tags) || params.tags.length < 2 || params.tags.length > MAX_SET_OPS_TAGS) {
+      throw new ValidationError(`tags must list between 2 and ${MAX_SET_OPS_TAGS} tag names`);
+    }
+    const sampleSize = params.sampleSize ?? DEFAULT_SET_OPS_SAMPLE;
+    if (!Number.isInteger(sampleSize) || sampleSize < 0 || sampleSize > MAX_SET_OPS_SAMPLE) {
+      throw new ValidationError(`sampleSize must be an integer between 0 and ${MAX_SET_OPS_SAMPLE}`);
+    }
+    if (!params.force) {
+      this.client.assertQuotaAvailable('tag set operation', params.tags.length);
+    }
+
+    const queue = this.getQueueStatus();
+    const [first, ...rest] = params.tags;
+    let result = new IpSet();
+    const walks = [await this.walkTag(first, ip => result.add(ip), params.force, signal)];
+
+    for (const tag of rest) {
+      if (params.operation === 'union') {
+        walks.push(await this.walkTag(tag, ip => result.add(ip), params.force, signal));
+      } else if (params.operation === 'difference') {
+        walks.push(await this.walkTag(tag, ip => result.delete(ip), params.force, signal));
+      } else {
+        const both = new IpSet();
+        const previous = result;
+        walks.push(await this.walkTag(tag, ip => previous.has(ip) && both.add(ip), params.force, signal));
+        result = both;
+      }
+    }
+
+    const limit = params.full ? MAX_SET_OPS_EXPORT : sampleSize;
+    const ips: string[] = [];
+    for (const ip of result) {
+      if (ips.length >= limit) {
+        break;
+      }
+      ips.push(ip);
+    }
+    ips.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+    const incomplete = walks.filter(walk => walk.truncated).map(walk => walk.tag);
+    const described = {
+      intersection: `in all of ${params.tags.join(', ')}`,
+      union: `in any of ${params.tags.join(', ')}`,
+      difference: `in ${first} but not in ${rest.join(', ')}`
+    }[params.operation];
+    let summary = `${result.size} IP address(es) ${described}`;
+    if (incomplete.length > 0) {
+      summary += `. Only the first ${MAX_SET_OPS_ENTRIES} entries of ${incomplete.join(', ')} were read, so the result is approximate`;
+    }
+
+    return {
+      operation: params.operation,
+      tags: walks,
+      count: result.size,
+      ...(params.full
+        ? { ips, truncated: result.size > ips.length || incomplete.length > 0 }
+        : { sample: ips, truncated: incomplete.length > 0 }),
+      summary,
+      queue
+    };
+  }
+
+  /**
+   * Feeds every address of a tag to `visit`, pinned to the snapshot of the
+   * first page. Once the first page reports the total, the remaining pages
+   * are checked against the quota soft limit.
+   */
+  private async walkTag(tag: string, visit: (ip: string) => void, force: boolean | undefined, signal?: AbortSignal) {
+    let snapshot: string | undefined;
+    let total: number | undefined;
+    let pages = 0;
+    let read = 0;
+    let truncated = false;
+
+    for await (const page of this.client.iterateTagIps(tag, { signal })) {
+      pages++;
+      snapshot = page.snapshot;
+      total = page.total;
+      if (pages === 1 && !force && total !== undefined && total > page.ips.length) {
+        const pageSize = page.limit || page.ips.length;
+        this.client.assertQuotaAvailable(`walking ${tag}`, Math.ceil((total - page.ips.length) / pageSize));
+      }
+
+      for (const ip of page.ips) {
+        if (read >= MAX_SET_OPS_ENTRIES) {
+          truncated = true;
+          break;
+        }
+        visit(ip);
+        read++;
+      }
+      if (truncated) {
+        break;
+      }
+    }
+
+    return { tag, snapshot, total, ips_read: read, pages, truncated };
+  }
+
+  private async exportBlocklist(params: ExportBlocklistToolParams, signal?: AbortSignal) {
+    if (typeof params.tagName !== 'string' || params.tagName.trim().length === 0) {
+      throw new ValidationError('tagName must be a non-empty string');
+    }
+    if (!isBlocklistFormat(params.format)) {
+      throw new ValidationError(`format must be one of ${BLOCKLIST_FORMATS.join(', ')}`);
+    }
+
+    const queue = this.getQueueStatus();
+    const lines: string[] = [];
+    const result = await exportBlocklist(this.client, params.tagName, params.format, line => {
+      lines.push(line);
+    }, {
+      setName: params.setName,
+      category: params.category,
+      score: params.score,
+      maxEntries: MAX_BLOCKLIST_ENTRIES,
+      force: params.force,
+      signal
+    });
+
+    let summary = `Exported ${result.entries} entr${result.entries === 1 ? 'y' : 'ies'} of ${params.tagName} as ${params.format}`;
+    if (result.skipped > 0) {
+      summary += result.skipped === 1
+        ? '. Skipped 1 entry that was not an IP address or prefix'
+        : `. Skipped ${result.skipped} entries that were not IP addresses or prefixes`;
+    }
+    if (result.truncated) {
+      summary += `. Stopped at ${MAX_BLOCKLIST_ENTRIES} entries; use the export-blocklist CLI command for the full list`;
+    }
+
+    return {
+      ...result,
+      content: `${lines.join('\n')}\n`,
+      summary,
+      queue
+    };
+  }
+
+  private async getStatus(params: StatusToolParams, signal?: AbortSignal) {
+    const breaker = this.client.getCircuitBreakerState();
+    const status = {
+      circuit_breaker: toCircuitBreakerStatus(breaker),
+      cache: this.client.getCacheStats(),
+      queue_depth: this.client.getQueueDepth(),
+      quota: this.client.getQuotaStatus(),
+      metrics: this.client.getMetrics(),
+      summary: breaker?.state === 'open'
+        ? `Guardian Intel upstream is degraded; requests fail fast for another ${Math.ceil((breaker.retryAfterMs ?? 0) / 1000)}s`
+        : `Guardian Intel connection is ${breaker?.state === 'half_open' ? 'recovering (probing)' : 'healthy'}`
+    };
+
+    if (params.diagnose === false) {
+      return status;
+    }
+
+    const diagnostics = await this.client.diagnose(signal);
+    return {
+      ...status,
+      summary: summarizeDiagnostics(diagnostics),
+      diagnostics,
+      report: formatDiagnosticsReport(diagnostics)
+    };
+  }
+
+  private async getQuota(params: QuotaToolParams, signal?: AbortSignal) {
+    const quota = params.refresh ? await this.client.refreshQuota(signal) : this.client.getQuotaStatus();
+
+    if (!quota) {
+      return {
+        quota: null,
+        summary: params.refresh
+          ? 'The Guardian Intel API did not report any quota information'
+          : 'No quota information yet - it is reported with API responses. Use refresh: true to fetch it now'
+      };
+    }
+
+    return {
+      quota,
+      summary: this.describeQuota(quota)
+    };
+  }
+
+  private describeQuota(quota: QuotaStatus): string {
+    const window = quota.source === 'quota' ? 'API quota' : 'API rate limit window';
+    const of = quota.limit !== undefined ? ` of ${quota.limit}` : '';
+    const reset = quota.reset_in_seconds !== undefined ? `, resets in ${quota.reset_in_seconds}s` : '';
+    let summary = `${quota.remaining}${of} requests left in the ${window}${reset}`;
+
+    if (quota.soft_limit !== undefined && quota.remaining !== undefined && quota.remaining <= quota.soft_limit) {
+      summary += `. Below the soft limit of ${quota.soft_limit}: bulk and export operations need force: true`;
+    } else if (quota.low) {
+      summary += '. Quota is running low - prefer cached results and narrower queries';
+    }
+
+    return summary;
+  }
+
+  /**
+   * Captures the rate limiter backlog before a request is issued, so the
+   * model can be told its call was queued rather than stalled.
+   */
+  private getQueueStatus(): QueueStatus | undefined {
+    const ahead = this.client.getQueueDepth();
+    if (!ahead) {
+      return undefined;
+    }
+
+    return {
+      ahead,
+      message: `Queued behind ${ahead} pending request(s) to stay within the API rate limit`
     };
   }
 
@@ -221,6 +1362,51 @@ export class GuardianIntelTools {
     return summary;
   }
 
+  private generateBulkAggregate(results: LookupResponse[]) {
+    const tagCounts: Record<string, number> = {};
+    const asnCounts = new Map<string, { asn: string; name: string; count: number }>();
+
+    results.forEach(result => {
+      (result.tags || []).forEach(tag => {
+        tagCounts[tag] = (tagCounts[tag] || 0) + 1;
+      });
+
+      if (result.asn) {
+        const entry = asnCounts.get(result.asn.asn) || { asn: result.asn.asn, name: result.asn.name, count: 0 };
+        entry.count++;
+        asnCounts.set(result.asn.asn, entry);
+      }
+    });
+
+    return {
+      by_threat_level: this.getIntentStats(results.map(result => ({ intent: result.threat_level }))),
+      top_tags: Object.entries(tagCounts)
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, TOP_ENTRIES)
+        .map(([tag, count]) => ({ tag, count })),
+      top_asns: [...asnCounts.values()]
+        .sort((a, b) => b.count - a.count)
+        .slice(0, TOP_ENTRIES)
+    };
+  }
+
+  private generateBulkSummary(results: LookupResponse[], failed: number): string {
+    const levels = this.getIntentStats(results.map(result => ({ intent: result.threat_level })));
+    const flagged = (levels.malicious || 0) + (levels.suspicious || 0);
+
+    let summary = `Looked up ${results.length} IP address(es): ${levels.malicious || 0} malicious, ${levels.suspicious || 0} suspicious`;
+
+    if (flagged === 0) {
+      summary += ', none flagged';
+    }
+
+    if (failed > 0) {
+      summary += `. ${failed} address(es) could not be looked up`;
+    }
+
+    return summary;
+  }
+
   private getCategoryStats(tags: { category?: string }[]): Record<string, number> {
     const stats: Record<string, number> = {};
     tags.forEach(tag => {
@@ -0,0 +1,224 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  defaultSetName,
+  exportBlocklist,
+  isBlocklistFormat,
+  setNameLimit,
+  BlocklistExportOptions,
+  BlocklistFormat
+} from '../src/blocklist';
+import { ValidationError } from '../src/errors';
+import { GuardianIntelClient } from '../src/guardian-intel-client';
+import { TagIpsResponse } from '../src/types';
+
+const GENERATED = new Date('2024-05-01T12:00:00.000Z');
+
+function fakeClient(pages: TagIpsResponse[]) {
+  return {
+    iterateTagIps: async function* () {
+      yield* pages;
+    },
+    assertQuotaAvailable: jest.fn()
+  };
+}
+
+async function run(
+  format: BlocklistFormat,
+  pages: TagIpsResponse[],
+  options: BlocklistExportOptions = {}
+) {
+  const client = fakeClient(pages);
+  const lines: string[] = [];
+  const result = await exportBlocklist(
+    client as unknown as GuardianIntelClient,
+    'credentials:brute-force',
+    format,
+    line => { lines.push(line); },
+    { now: () => GENERATED, ...options }
+  );
+  return { client, lines, result, body: lines.filter(line => !line.startsWith('#')) };
+}
+
+const page: TagIpsResponse = {
+  tag: 'credentials:brute-force',
+  total: 3,
+  snapshot: '2024-05-01',
+  ips: ['192.0.2.1', '2001:DB8::1', '198.51.100.0/24']
+};
+
+describe('exportBlocklist', () => {
+  it('should start every format with a header naming the tag, snapshot and time', async () => {
+    const { lines } = await run('txt', [page]);
+
+    expect(lines.slice(0, 5)).toEqual([
+      '# Guardian Intel blocklist',
+      '# Tag: credentials:brute-force',
+      '# Snapshot: 2024-05-01',
+      '# Generated: 2024-05-01T12:00:00.000Z',
+      '# Entries in tag: 3'
+    ]);
+  });
+
+  it('should write canonical entries for plain text, pf, snort and EDL lists', async () => {
+    for (const format of ['txt', 'pf', 'snort', 'edl'] as const) {
+      const { body } = await run(format, [page]);
+      expect(body).toEqual(['192.0.2.1', '2001:db8::1', '198.51.100.0/24']);
+    }
+  });
+
+  it('should write CSV with a column header', async () => {
+    const { body } = await run('csv', [page]);
+
+    expect(body).toEqual([
+      'ip,version,tag,snapshot',
+      '192.0.2.1,4,credentials:brute-force,2024-05-01',
+      '2001:db8::1,6,credentials:brute-force,2024-05-01',
+      '198.51.100.0/24,4,credentials:brute-force,2024-05-01'
+    ]);
+  });
+
+  it('should write an ipset restore file with separate IPv4 and IPv6 sets', async () => {
+    const { body } = await run('ipset', [page]);
+
+    expect(body).toEqual([
+      'create gi_credentials_brute_force hash:net family inet maxelem 65536 -exist',
+      'create gi_credentials_brute_force_v6 hash:net family inet6 maxelem 65536 -exist',
+      'add gi_credentials_brute_force 192.0.2.1 -exist',
+      'add gi_credentials_brute_force_v6 2001:db8::1 -exist',
+      'add gi_credentials_brute_force 198.51.100.0/24 -exist'
+    ]);
+  });
+
+  it('should write nftables sets and iptables rules under a custom name', async () => {
+    const nft = await run('nftables', [page], { setName: 'bruteforce' });
+    expect(nft.body).toEqual([
+      'add table inet guardian_intel',
+      'add set inet guardian_intel bruteforce_v4 { type ipv4_addr; flags interval; }',
+      'add set inet guardian_intel bruteforce_v6 { type ipv6_addr; flags interval; }',
+      'add element inet guardian_intel bruteforce_v4 { 192.0.2.1 }',
+      'add element inet guardian_intel bruteforce_v6 { 2001:db8::1 }',
+      'add element inet guardian_intel bruteforce_v4 { 198.51.100.0/24 }'
+    ]);
+
+    const iptables = await run('iptables', [page], { setName: 'bruteforce' });
+    expect(iptables.lines[0]).toBe('#!/bin/sh');
+    expect(iptables.body).toEqual([
+      'iptables -N bruteforce 2>/dev/null || iptables -F bruteforce',
+      'ip6tables -N bruteforce 2>/dev/null || ip6tables -F bruteforce',
+      'iptables -A bruteforce -s 192.0.2.1 -j DROP',
+      'ip6tables -A bruteforce -s 2001:db8::1 -j DROP',
+      'iptables -A bruteforce -s 198.51.100.0/24 -j DROP'
+    ]);
+  });
+
+  it('should write Suricata reputation entries', async () => {
+    const { body } = await run('suricata', [page], { category: 4, score: 90 });
+
+    expect(body).toEqual(['192.0.2.1,4,90', '2001:db8::1,4,90', '198.51.100.0/24,4,90']);
+  });
+
+  it('should refuse a Suricata category or score the reputation file cannot hold', async () => {
+    const invalid: BlocklistExportOptions[] = [
+      { category: NaN }, { category: 0 }, { category: 1.5 }, { score: NaN }, { score: -1 }, { score: 128 }, { score: 2.5 }
+    ];
+    for (const options of invalid) {
+      const client = fakeClient([page]);
+      const iterate = jest.spyOn(client, 'iterateTagIps');
+      await expect(exportBlocklist(client as unknown as GuardianIntelClient, 'x', 'suricata', () => undefined, options))
+        .rejects.toThrow(ValidationError);
+      expect(iterate).not.toHaveBeenCalled();
+    }
+
+    const { body } = await run('suricata', [page], { category: 1, score: 0 });
+    expect(body[0]).toBe('192.0.2.1,1,0');
+  });
+
+  it('should walk every page and skip entries that are not addresses', async () => {
+    const { body, result } = await run('txt', [
+      { ...page, total: 4, limit: 2, ips: ['192.0.2.1', 'not-an-ip'] },
+      { ...page, total: 4, limit: 2, offset: 2, ips: ['192.0.2.2', '192.0.2.3'] }
+    ]);
+
+    expect(body).toEqual(['192.0.2.1', '192.0.2.2', '192.0.2.3']);
+    expect(result).toEqual({
+      tag: 'credentials:brute-force',
+      format: 'txt',
+      snapshot: '2024-05-01',
+      total: 4,
+      entries: 3,
+      skipped: 1,
+      pages: 2,
+      truncated: false
+    });
+  });
+
+  it('should stop at maxEntries and flag the export as truncated', async () => {
+    const { body, result } = await run('txt', [
+      { ...page, total: 4, limit: 2, ips: ['192.0.2.1', '192.0.2.2'] },
+      { ...page, total: 4, limit: 2, offset: 2, ips: ['192.0.2.3', '192.0.2.4'] }
+    ], { maxEntries: 3 });
+
+    expect(body).toEqual(['192.0.2.1', '192.0.2.2', '192.0.2.3']);
+    expect(result.truncated).toBe(true);
+    expect(result.entries).toBe(3);
+  });
+
+  it('should check the quota for the remaining pages unless forced', async () => {
+    const pages = [{ ...page, total: 250, limit: 100, ips: ['192.0.2.1'] }];
+
+    const checked = await run('txt', pages);
+    expect(checked.client.assertQuotaAvailable).toHaveBeenCalledWith('blocklist export', 3);
+
+    const forced = await run('txt', pages, { force: true });
+    expect(forced.client.assertQuotaAvailable).not.toHaveBeenCalled();
+  });
+
+  it('should refuse set names that could break out of the generated file', async () => {
+    for (const setName of ['x; touch /tmp/pwned #', 'a b', '', 'bf-list', 'a'.repeat(29)]) {
+      const client = fakeClient([page]);
+      const iterate = jest.spyOn(client, 'iterateTagIps');
+      await expect(exportBlocklist(client as unknown as GuardianIntelClient, 'x', 'iptables', () => undefined, { setName }))
+        .rejects.toThrow(ValidationError);
+      expect(iterate).not.toHaveBeenCalled();
+    }
+
+    const { body } = await run('pf', [page], { setName: 'a'.repeat(31) });
+    expect(body).toHaveLength(3);
+  });
+
+  it('should keep derived names within each format limit including suffixes', async () => {
+    const tag = 'anonymizer:residential-proxy-network-exit';
+    const pages = [{ ...page, tag, ips: ['2001:db8::1'] }];
+
+    const client = fakeClient(pages);
+    const lines: string[] = [];
+    await exportBlocklist(client as unknown as GuardianIntelClient, tag, 'ipset', line => { lines.push(line); }, { now: () => GENERATED });
+    const names = lines.filter(line => !line.startsWith('#')).map(line => line.split(' ')[1]);
+
+    expect(names).toEqual(['gi_anonymizer_residential_pr', 'gi_anonymizer_residential_pr_v6', 'gi_anonymizer_residential_pr_v6']);
+    expect(Math.max(...names.map(name => name.length))).toBeLessThanOrEqual(31);
+  });
+
+  it('should still write a header for an empty tag', async () => {
+    const { lines, result } = await run('ipset', []);
+
+    expect(lines).toContain('# Snapshot: none');
+    expect(lines).toContain('create gi_credentials_brute_force hash:net family inet maxelem 65536 -exist');
+    expect(result.entries).toBe(0);
+    expect(result.pages).toBe(0);
+  });
+});
+
+describe('blocklist helpers', () => {
+  it('should recognise supported formats', () => {
+    expect(isBlocklistFormat('nftables')).toBe(true);
+    expect(isBlocklistFormat('json')).toBe(false);
+  });
+
+  it('should derive set names usable by every firewall', () => {
+    expect(defaultSetName('Credentials:Brute-Force')).toBe('gi_credentials_brute_force');
+    expect(defaultSetName('a'.repeat(64))).toHaveLength(31);
+    expect(defaultSetName('a'.repeat(64), setNameLimit('iptables'))).toHaveLength(28);
+    expect(defaultSetName('abcde:fgh', 9)).toBe('gi_abcde');
+  });
+});
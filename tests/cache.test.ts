@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals';
+import { TtlCache } from '../src/cache';
+
+describe('TtlCache', () => {
+  const createClock = () => {
+    let now = 0;
+    return {
+      now: () => now,
+      advance: (ms: number) => {
+        now += ms;
+      }
+    };
+  };
+
+  it('should return stored values with their age', () => {
+    const clock = createClock();
+    const cache = new TtlCache<string>(10, clock.now);
+
+    cache.set('a', 'value', 1000);
+    clock.advance(250);
+
+    expect(cache.get('a')).toEqual({ value: 'value', ageMs: 250 });
+  });
+
+  it('should expire entries after their TTL', () => {
+    const clock = createClock();
+    const cache = new TtlCache<string>(10, clock.now);
+
+    cache.set('a', 'value', 1000);
+    clock.advance(1000);
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('should evict the least recently used entry when full', () => {
+    const cache = new TtlCache<number>(2);
+
+    cache.set('a', 1, 1000);
+    cache.set('b', 2, 1000);
+    cache.get('a');
+    cache.set('c', 3, 1000);
+
+    expect(cache.get('a')?.value).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')?.value).toBe(3);
+  });
+
+  it('should not store entries with a non-positive TTL', () => {
+    const cache = new TtlCache<number>(2);
+
+    cache.set('a', 1, 0);
+
+    expect(cache.size).toBe(0);
+  });
+
+  it('should reject invalid sizes', () => {
+    expect(() => new TtlCache(0)).toThrow('Cache size must be a positive integer');
+  });
+});
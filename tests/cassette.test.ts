@@ -0,0 +1,124 @@
+import { describe, it, expect } from '@jest/globals';
+import { AxiosError, AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import { mkdtempSync, readdirSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GuardianIntelClient } from '../src/guardian-intel-client';
+import { GuardianIntelTools } from '../src/tools';
+import { cassetteFileName, createCassetteAdapter, parseCassetteMode } from '../src/cassette';
+import { CassetteMissError, NotFoundError } from '../src/errors';
+import { CassetteConfig } from '../src/types';
+
+const FIXTURES = join(__dirname, 'fixtures', 'cassettes');
+
+const createClient = (cassette: CassetteConfig) => new GuardianIntelClient({
+  apiKey: 'secret-api-key',
+  cassette,
+  rateLimit: { enabled: false },
+  retry: { maxRetries: 0 }
+});
+
+describe('cassettes', () => {
+  describe('record mode', () => {
+    const upstream = async (config: InternalAxiosRequestConfig) => {
+      const status = config.url === '/query/1.2.3.4' ? 200 : 404;
+      const response = {
+        status,
+        statusText: status === 200 ? 'OK' : 'Not Found',
+        headers: new AxiosHeaders({ 'content-type': 'application/json' }),
+        data: status === 200
+          ? { result: { item: '1.2.3.4', tags: ['malware'], intent: 'malicious', note: 'key secret-api-key' } }
+          : { message: 'Not found' },
+        config
+      };
+      if (status !== 200) {
+        throw new AxiosError('Request failed with status code 404', AxiosError.ERR_BAD_REQUEST, config, undefined, response);
+      }
+      return response;
+    };
+
+    it('should save each response with the API key redacted', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'guardian-intel-cassette-'));
+      const client = createClient({ mode: 'record', dir });
+      (client as any).client.defaults.adapter = createCassetteAdapter({ mode: 'record', dir }, upstream);
+
+      await client.lookupIp('1.2.3.4');
+      await expect(client.lookupIp('5.6.7.8')).rejects.toBeInstanceOf(NotFoundError);
+
+      const files = readdirSync(dir);
+      expect(files).toHaveLength(2);
+
+      const contents = files.map(file => readFileSync(join(dir, file), 'utf8')).join('\n');
+      expect(contents).not.toContain('secret-api-key');
+      expect(contents).toContain('"x-api-key": "[REDACTED]"');
+
+      const recorded = JSON.parse(readFileSync(join(dir, cassetteFileName('GET /query/5.6.7.8')), 'utf8'));
+      expect(recorded.response.status).toBe(404);
+    });
+
+    it('should replay what it recorded', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'guardian-intel-cassette-'));
+      const recorder = createClient({ mode: 'record', dir });
+      (recorder as any).client.defaults.adapter = createCassetteAdapter({ mode: 'record', dir }, upstream);
+      const recorded = await recorder.lookupIp('1.2.3.4');
+
+      const replayed = await createClient({ mode: 'replay', dir, strict: true }).lookupIp('1.2.3.4');
+
+      expect(replayed.tags).toEqual(recorded.tags);
+      expect(replayed.threat_level).toBe('malicious');
+      // The key is scrubbed from response bodies too
+      expect(replayed.extra).toEqual({ note: 'key [REDACTED]' });
+    });
+  });
+
+  describe('replay mode', () => {
+    it('should answer from recorded files, including error responses', async () => {
+      const client = createClient({ mode: 'replay', dir: FIXTURES, strict: true });
+
+      const result = await client.lookupIp('192.0.2.10');
+
+      expect(result.threat_level).toBe('malicious');
+      expect(result.asn?.name).toBe('Example Hosting');
+      await expect(client.lookupIp('198.51.100.7')).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should fail unmatched requests in strict mode', async () => {
+      const client = createClient({ mode: 'replay', dir: FIXTURES, strict: true });
+
+      const error = await client.lookupIp('203.0.113.1').catch(e => e);
+
+      expect(error).toBeInstanceOf(CassetteMissError);
+      expect(error.message).toContain('No recorded response for GET /query/203.0.113.1');
+    });
+
+    it('should answer unmatched requests with 404 when not strict', async () => {
+      const client = createClient({ mode: 'replay', dir: FIXTURES });
+
+      await expect(client.lookupIp('203.0.113.1')).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should drive GuardianIntelTools without network access', async () => {
+      const tools = new GuardianIntelTools(createClient({ mode: 'replay', dir: FIXTURES, strict: true }));
+
+      const lookup = await tools.executeTool('guardian_intel_lookup', { ip: '192.0.2.10' }) as any;
+      const tag = await tools.executeTool('guardian_intel_tag_details', { tagName: 'credentials:brute-force' }) as any;
+
+      expect(lookup.tags).toEqual(['credentials:brute-force', 'tool:scanner']);
+      expect(lookup.abuse_contact).toBe('abuse@example.net');
+      expect(tag.tag.category).toBe('activity');
+    });
+  });
+
+  describe('parseCassetteMode', () => {
+    it('should accept record, replay and off', () => {
+      expect(parseCassetteMode('record')).toBe('record');
+      expect(parseCassetteMode('replay')).toBe('replay');
+      expect(parseCassetteMode('off')).toBeUndefined();
+      expect(parseCassetteMode(undefined)).toBeUndefined();
+    });
+
+    it('should reject unknown modes', () => {
+      expect(() => parseCassetteMode('playback')).toThrow('Invalid cassette mode "playback"');
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { jest, describe, it, expect } from '@jest/globals';
+import { CircuitBreaker, CircuitBreakerPolicy, CircuitStateChange } from '../src/circuit-breaker';
+import { CircuitOpenError } from '../src/errors';
+
+describe('CircuitBreaker', () => {
+  const policy: CircuitBreakerPolicy = {
+    failureRateThreshold: 0.5,
+    minimumRequests: 4,
+    windowSize: 10,
+    openDurationMs: 1000,
+    halfOpenProbes: 1
+  };
+  const isFailure = (error: unknown) => (error as Error).message === 'upstream down';
+
+  const createBreaker = () => {
+    let now = 0;
+    const changes: CircuitStateChange[] = [];
+    const breaker = new CircuitBreaker(policy, change => changes.push(change), () => now);
+    return {
+      breaker,
+      changes,
+      advance: (ms: number) => {
+        now += ms;
+      }
+    };
+  };
+
+  const fail = (breaker: CircuitBreaker, message = 'upstream down') =>
+    breaker.execute(async () => {
+      throw new Error(message);
+    }, isFailure).catch(error => error);
+
+  it('should open once the failure rate crosses the threshold', async () => {
+    const { breaker, changes } = createBreaker();
+
+    await breaker.execute(async () => 'ok', isFailure);
+    await breaker.execute(async () => 'ok', isFailure);
+    await fail(breaker);
+    expect(breaker.getSnapshot().state).toBe('closed');
+
+    await fail(breaker);
+    expect(breaker.getSnapshot()).toMatchObject({
+      state: 'open',
+      failureRate: 0.5,
+      recentRequests: 4,
+      retryAfterMs: 1000
+    });
+    expect(changes.map(c => `${c.from}->${c.to}`)).toEqual(['closed->open']);
+  });
+
+  it('should not count errors that are not upstream failures', async () => {
+    const { breaker } = createBreaker();
+
+    for (let i = 0; i < 4; i++) {
+      await fail(breaker, 'not found');
+    }
+
+    expect(breaker.getSnapshot().state).toBe('closed');
+  });
+
+  it('should fail fast while open', async () => {
+    const { breaker } = createBreaker();
+    for (let i = 0; i < 4; i++) {
+      await fail(breaker);
+    }
+    const operation = jest.fn(async () => 'ok');
+
+    const error = await breaker.execute(operation, isFailure).catch(e => e);
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.message).toBe('Guardian Intel upstream degraded - failing fast, retry after 1s');
+    expect(error.retryAfterMs).toBe(1000);
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('should close again after a successful half-open probe', async () => {
+    const { breaker, changes, advance } = createBreaker();
+    for (let i = 0; i < 4; i++) {
+      await fail(breaker);
+    }
+
+    advance(1000);
+    await expect(breaker.execute(async () => 'ok', isFailure)).resolves.toBe('ok');
+
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'closed', recentRequests: 0 });
+    expect(changes.map(c => `${c.from}->${c.to}`)).toEqual(['closed->open', 'open->half_open', 'half_open->closed']);
+  });
+
+  it('should re-open when the half-open probe fails', async () => {
+    const { breaker, advance } = createBreaker();
+    for (let i = 0; i < 4; i++) {
+      await fail(breaker);
+    }
+
+    advance(1000);
+    await fail(breaker);
+
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'open', retryAfterMs: 1000 });
+  });
+
+  it('should stay half-open when a probe ends in an ignored error', async () => {
+    const { breaker, advance } = createBreaker();
+    for (let i = 0; i < 4; i++) {
+      await fail(breaker);
+    }
+    advance(1000);
+
+    const isIgnored = (error: unknown) => (error as Error).message === 'aborted';
+    await breaker.execute(async () => {
+      throw new Error('aborted');
+    }, isFailure, isIgnored).catch(error => error);
+    expect(breaker.getSnapshot().state).toBe('half_open');
+
+    await fail(breaker);
+    expect(breaker.getSnapshot().state).toBe('open');
+  });
+
+  it('should only allow a limited number of concurrent probes', async () => {
+    const { breaker, advance } = createBreaker();
+    for (let i = 0; i < 4; i++) {
+      await fail(breaker);
+    }
+    advance(1000);
+
+    let finishProbe!: () => void;
+    const probe = breaker.execute(() => new Promise<void>(resolve => {
+      finishProbe = resolve;
+    }), isFailure);
+
+    await expect(breaker.execute(async () => 'ok', isFailure)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    finishProbe();
+    await probe;
+    expect(breaker.getSnapshot().state).toBe('closed');
+  });
+});
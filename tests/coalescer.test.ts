@@ -0,0 +1,85 @@
+import { jest, describe, it, expect } from '@jest/globals';
+import { RequestCoalescer } from '../src/coalescer';
+
+describe('RequestCoalescer', () => {
+  const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+
+  it('should build keys from method, path and sorted params', () => {
+    expect(RequestCoalescer.key('get', '/tags', { b: '2', a: '1', c: undefined }))
+      .toBe('GET /tags?a=1&b=2');
+    expect(RequestCoalescer.key('GET', '/query/1.2.3.4')).toBe('GET /query/1.2.3.4');
+  });
+
+  it('should run the factory once for concurrent callers', async () => {
+    const coalescer = new RequestCoalescer();
+    const pending = deferred<string>();
+    const factory = jest.fn((_signal: AbortSignal) => pending.promise);
+
+    const first = coalescer.run('key', factory);
+    const second = coalescer.run('key', factory);
+    pending.resolve('result');
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['result', 'result']);
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(coalescer.size).toBe(0);
+  });
+
+  it('should start a new request once the previous one settled', async () => {
+    const coalescer = new RequestCoalescer();
+    const factory = jest.fn(async (_signal: AbortSignal) => 'result');
+
+    await coalescer.run('key', factory);
+    await coalescer.run('key', factory);
+
+    expect(factory).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep the shared request alive when only one waiter cancels', async () => {
+    const coalescer = new RequestCoalescer();
+    const pending = deferred<string>();
+    let sharedSignal!: AbortSignal;
+    const controller = new AbortController();
+
+    const cancelled = coalescer.run('key', signal => {
+      sharedSignal = signal;
+      return pending.promise;
+    }, controller.signal);
+    const remaining = coalescer.run('key', () => pending.promise);
+
+    controller.abort(new Error('cancelled'));
+    await expect(cancelled).rejects.toThrow('cancelled');
+    expect(sharedSignal.aborted).toBe(false);
+
+    pending.resolve('result');
+    await expect(remaining).resolves.toBe('result');
+  });
+
+  it('should abort the shared request once every waiter cancelled', async () => {
+    const coalescer = new RequestCoalescer();
+    const pending = deferred<string>();
+    let sharedSignal!: AbortSignal;
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const runs = [first, second].map(controller => coalescer.run('key', signal => {
+      sharedSignal = signal;
+      return pending.promise;
+    }, controller.signal));
+
+    first.abort(new Error('cancelled'));
+    second.abort(new Error('cancelled'));
+
+    await expect(Promise.allSettled(runs)).resolves.toHaveLength(2);
+    expect(sharedSignal.aborted).toBe(true);
+    expect(coalescer.size).toBe(0);
+    pending.reject(new Error('aborted'));
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  organisationDomain,
+  parseAuthenticationResults,
+  parseEmailHeaders,
+  parseHeaderFields,
+  parseReceived
+} from '../src/email-headers';
+
+const HEADERS = [
+  'Received: from mx-internal.example.com (mx-internal.example.com [10.1.2.3])',
+  '\tby mail.example.com (Postfix) with ESMTP id 4XyZ; Tue, 1 Oct 2024 10:00:05 +0000',
+  'Received: from mail.sender.org (mail.sender.org [45.33.32.156])',
+  '\tby mx1.example.com (Postfix) with ESMTPS id 4AbC',
+  '\tfor <alice@example.com>; Tue, 1 Oct 2024 10:00:03 +0000 (UTC)',
+  'Received: from [192.168.1.20] (helo=laptop) by mail.sender.org with esmtpsa (Exim 4.96)',
+  '\t(envelope-from <bob@sender.org>) id 1sAbCd-000123-4E; Tue, 01 Oct 2024 10:00:00 +0000',
+  'X-Originating-IP: [185.220.101.1]',
+  'Authentication-Results: mail.example.com; spf=pass (sender IP is 45.33.32.156) smtp.mailfrom=sender.org;',
+  ' dkim=fail header.d=sender.org; dmarc=fail (p=reject dis=none) header.from=sender.org',
+  'Subject: Invoice',
+  '',
+  'Received: from body.example (body [203.0.113.9]) by nowhere'
+].join('\r\n');
+
+describe('email-headers', () => {
+  describe('parseHeaderFields', () => {
+    it('should unfold continuation lines and stop at the body', () => {
+      const fields = parseHeaderFields(HEADERS);
+
+      expect(fields.map(field => field.name)).toEqual([
+        'Received', 'Received', 'Received', 'X-Originating-IP', 'Authentication-Results', 'Subject'
+      ]);
+      expect(fields[1].value).toBe(
+        'from mail.sender.org (mail.sender.org [45.33.32.156]) by mx1.example.com (Postfix) with ESMTPS id 4AbC ' +
+        'for <alice@example.com>; Tue, 1 Oct 2024 10:00:03 +0000 (UTC)'
+      );
+    });
+  });
+
+  describe('parseReceived', () => {
+    it('should read the from, by and with clauses and the date', () => {
+      expect(parseReceived(
+        'from mail.sender.org (mail.sender.org [45.33.32.156]) by mx1.example.com (Postfix) with ESMTPS id 4AbC; Tue, 1 Oct 2024 10:00:03 +0000 (UTC)'
+      )).toEqual({
+        source: 'received',
+        from_host: 'mail.sender.org',
+        from_rdns: 'mail.sender.org',
+        ip: '45.33.32.156',
+        by_host: 'mx1.example.com',
+        protocol: 'ESMTPS',
+        received_at: '2024-10-01T10:00:03.000Z'
+      });
+    });
+
+    it('should handle address literals and IPv6 in parentheses', () => {
+      expect(parseReceived('from [IPv6:2001:db8::5] (helo=laptop) by mail.sender.org with esmtpsa; Tue, 1 Oct 2024 10:00:00 +0000'))
+        .toMatchObject({ from_host: '2001:db8::5', ip: '2001:db8::5', from_rdns: undefined });
+
+      expect(parseReceived(
+        'from AM0PR01MB1234.eurprd01.prod.outlook.com (2603:10a6:208:1::12) by AM0PR01MB5678.eurprd01.prod.outlook.com ' +
+        '(2603:10a6:208:2::34) with Microsoft SMTP Server id 15.20.1234.5; Tue, 1 Oct 2024 10:00:00 +0000'
+      )).toMatchObject({
+        from_host: 'AM0PR01MB1234.eurprd01.prod.outlook.com',
+        ip: '2603:10a6:208:1::12',
+        by_host: 'AM0PR01MB5678.eurprd01.prod.outlook.com',
+        protocol: 'Microsoft'
+      });
+    });
+
+    it('should take the address from what the receiver recorded, not the HELO name', () => {
+      expect(parseReceived('from [10.9.9.9] (unknown [45.33.12.77]) by mx1.victim.com with ESMTP; Tue, 1 Oct 2024 10:00:05 +0000'))
+        .toMatchObject({ from_host: '10.9.9.9', ip: '45.33.12.77' });
+      expect(parseReceived('from unknown (HELO [8.8.8.8]) (45.33.12.77) by mx1.victim.com with SMTP; Tue, 1 Oct 2024 10:00:05 +0000'))
+        .toMatchObject({ ip: '45.33.12.77' });
+      expect(parseReceived('from [45.33.12.77] (helo=[8.8.8.8]) by mx1.victim.com with esmtp; Tue, 1 Oct 2024 10:00:05 +0000'))
+        .toMatchObject({ ip: '45.33.12.77' });
+      expect(parseReceived('from [8.8.8.8] by mx1.victim.com with SMTP; Tue, 1 Oct 2024 10:00:05 +0000').ip).toBeUndefined();
+    });
+
+    it('should leave out what a local delivery header does not have', () => {
+      const hop = parseReceived('by mail.example.com (Postfix, from userid 1000) id 4XyZ; not a date');
+
+      expect(hop.ip).toBeUndefined();
+      expect(hop.from_host).toBeUndefined();
+      expect(hop.by_host).toBe('mail.example.com');
+      expect(hop.received_at).toBeUndefined();
+    });
+  });
+
+  describe('parseAuthenticationResults', () => {
+    it('should split methods, results and properties and drop comments', () => {
+      expect(parseAuthenticationResults(
+        'mx.example.com 1; spf=pass (sender IP is 45.33.32.156) smtp.mailfrom=sender.org; DKIM=Fail header.d=sender.org; arc=none'
+      )).toEqual({
+        authserv_id: 'mx.example.com',
+        results: [
+          { method: 'spf', result: 'pass', properties: { 'smtp.mailfrom': 'sender.org' } },
+          { method: 'dkim', result: 'fail', properties: { 'header.d': 'sender.org' } },
+          { method: 'arc', result: 'none', properties: {} }
+        ]
+      });
+    });
+  });
+
+  describe('organisationDomain', () => {
+    it('should keep the registrable part of a host name', () => {
+      expect(organisationDomain('mx1.mail.example.com')).toBe('example.com');
+      expect(organisationDomain('mx.example.co.uk')).toBe('example.co.uk');
+      expect(organisationDomain('localhost')).toBeUndefined();
+      expect(organisationDomain('[10.0.0.1]')).toBeUndefined();
+    });
+  });
+
+  describe('parseEmailHeaders', () => {
+    it('should order hops oldest first and mark the first external hop', () => {
+      const parsed = parseEmailHeaders(HEADERS);
+
+      expect(parsed.internal_domains).toEqual(['example.com']);
+      expect(parsed.hops.map(hop => [hop.hop, hop.source, hop.ip, hop.range, hop.internal, hop.first_external])).toEqual([
+        [1, 'x-originating-ip', '185.220.101.1', undefined, false, false],
+        [2, 'received', '192.168.1.20', 'private', false, false],
+        [3, 'received', '45.33.32.156', undefined, false, true],
+        [4, 'received', '10.1.2.3', 'private', true, false]
+      ]);
+      expect(parsed.authentication[0].results.map(result => `${result.method}=${result.result}`))
+        .toEqual(['spf=pass', 'dkim=fail', 'dmarc=fail']);
+    });
+
+    it('should treat relays inside the given internal domains as internal', () => {
+      const parsed = parseEmailHeaders([
+        'Received: from gw.example.net (gw.example.net [93.184.216.34]) by mail.example.com with ESMTP; Tue, 1 Oct 2024 10:00:05 +0000',
+        'Received: from mail.sender.org (mail.sender.org [45.33.32.156]) by gw.example.net with ESMTP; Tue, 1 Oct 2024 10:00:03 +0000'
+      ].join('\n'), ['example.com', 'Example.NET']);
+
+      expect(parsed.hops.map(hop => [hop.ip, hop.internal, hop.first_external])).toEqual([
+        ['45.33.32.156', false, true],
+        ['93.184.216.34', true, false]
+      ]);
+    });
+
+    it('should not trust a HELO name that claims to be internal', () => {
+      const parsed = parseEmailHeaders([
+        'Received: from mx.victim.com (unknown [45.33.12.77]) by mx1.victim.com with ESMTP; Tue, 1 Oct 2024 10:00:05 +0000',
+        'Received: from google.com (google.com [8.8.8.8]) by mx.victim.com with ESMTP; Tue, 1 Oct 2024 10:00:03 +0000'
+      ].join('\n'));
+
+      expect(parsed.hops.map(hop => [hop.ip, hop.internal, hop.first_external])).toEqual([
+        ['8.8.8.8', false, false],
+        ['45.33.12.77', false, true]
+      ]);
+    });
+
+    it('should not trust an address literal used as the HELO name', () => {
+      const parsed = parseEmailHeaders([
+        'Received: from [10.9.9.9] (unknown [45.33.12.77]) by mx1.victim.com with ESMTP; Tue, 1 Oct 2024 10:00:05 +0000',
+        'Received: from google.com (google.com [8.8.8.8]) by mx.victim.com with ESMTP; Tue, 1 Oct 2024 10:00:03 +0000'
+      ].join('\n'));
+
+      expect(parsed.hops.map(hop => [hop.ip, hop.internal, hop.first_external])).toEqual([
+        ['8.8.8.8', false, false],
+        ['45.33.12.77', false, true]
+      ]);
+    });
+
+    it('should not mark an X-Originating-IP as the first external hop', () => {
+      const parsed = parseEmailHeaders('X-Originating-IP: 185.220.101.1\nSubject: hi');
+
+      expect(parsed.hops).toEqual([
+        expect.objectContaining({ hop: 1, source: 'x-originating-ip', ip: '185.220.101.1', internal: false, first_external: false })
+      ]);
+    });
+  });
+});
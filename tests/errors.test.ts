@@ -0,0 +1,100 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import axios from 'axios';
+import { GuardianIntelClient } from '../src/guardian-intel-client';
+import {
+  AuthenticationError,
+  ForbiddenError,
+  GuardianIntelError,
+  MalformedResponseError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  RequestTimeoutError,
+  UpstreamUnavailableError,
+  ValidationError
+} from '../src/errors';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('typed errors', () => {
+  let client: GuardianIntelClient;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAxiosInstance = {
+      get: jest.fn()
+    };
+
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+
+    client = new GuardianIntelClient({
+      apiKey: 'test-api-key',
+      retry: { maxRetries: 0 },
+      rateLimit: { enabled: false }
+    });
+  });
+
+  const httpError = (status: number, data?: unknown, headers: Record<string, string> = {}) => ({
+    message: `Request failed with status code ${status}`,
+    response: { status, statusText: '', data, headers }
+  });
+
+  it.each([
+    [401, AuthenticationError],
+    [403, ForbiddenError],
+    [404, NotFoundError],
+    [422, ValidationError],
+    [500, UpstreamUnavailableError],
+    [502, UpstreamUnavailableError]
+  ])('should map HTTP %i to %p', async (status, errorClass) => {
+    mockAxiosInstance.get.mockRejectedValue(httpError(status));
+
+    const error = await client.lookupIp('1.2.3.4').catch(e => e);
+
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error).toBeInstanceOf(GuardianIntelError);
+    expect(error.status).toBe(status);
+    expect(error.endpoint).toBe('lookup');
+  });
+
+  it('should carry retry-after and upstream code on rate limit errors', async () => {
+    mockAxiosInstance.get.mockRejectedValue(
+      httpError(429, { message: 'Too many requests', code: 'RATE_LIMITED' }, { 'retry-after': '7' })
+    );
+
+    const error = await client.getTags().catch(e => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.message).toBe('Guardian Intel API Error (RATE_LIMITED): Too many requests');
+    expect(error.retryAfterMs).toBe(7000);
+    expect(error.upstreamCode).toBe('RATE_LIMITED');
+    expect(error.endpoint).toBe('tags');
+  });
+
+  it('should map timeouts and connection failures', async () => {
+    mockAxiosInstance.get.mockRejectedValueOnce({ code: 'ECONNABORTED', message: 'timeout' });
+    await expect(client.getTagDetails('tool:scanner')).rejects.toBeInstanceOf(RequestTimeoutError);
+
+    mockAxiosInstance.get.mockRejectedValueOnce({ code: 'ENOTFOUND', message: 'getaddrinfo ENOTFOUND' });
+    await expect(client.getTagDetails('tool:scanner')).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it('should raise validation errors before sending a request', async () => {
+    await expect(client.lookupIp('not-an-ip')).rejects.toBeInstanceOf(ValidationError);
+    await expect(client.getTagIps('tag', { limit: 0 })).rejects.toBeInstanceOf(ValidationError);
+    expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+  });
+
+  it('should raise malformed response errors for unexpected payloads', async () => {
+    mockAxiosInstance.get.mockResolvedValue({ data: { unexpected: true } });
+
+    const error = await client.getTagIps('tool:scanner').catch(e => e);
+
+    expect(error).toBeInstanceOf(MalformedResponseError);
+    expect(error.endpoint).toBe('tag_ips');
+  });
+});
@@ -1,6 +1,8 @@
 import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
 import axios from 'axios';
 import { GuardianIntelClient } from '../src/guardian-intel-client';
+import { RequestAbortedError } from '../src/errors';
+import { RequestEvent } from '../src/instrumentation';
 
 // Mock axios
 jest.mock('axios');
@@ -28,7 +30,9 @@ describe('GuardianIntelClient', () => {
     
     client = new GuardianIntelClient({
       apiKey: 'test-api-key',
-      baseUrl: 'https://test-api.example.com'
+      baseUrl: 'https://test-api.example.com',
+      // Rate limiting is covered in rate-limiter.test.ts
+      rateLimit: { enabled: false }
     });
   });
 
@@ -58,6 +62,20 @@ describe('GuardianIntelClient', () => {
         })
       );
     });
+
+    it('should route every request through the configured proxy', () => {
+      new GuardianIntelClient({
+        apiKey: 'test-key',
+        network: { proxyUrl: 'http://proxy.corp:8080' }
+      });
+
+      expect(mockedAxios.create).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          httpsAgent: expect.anything(),
+          proxy: false
+        })
+      );
+    });
   });
 
   describe('lookupIp', () => {
@@ -96,7 +114,7 @@ describe('GuardianIntelClient', () => {
 
       const result = await client.lookupIp('1.2.3.4');
 
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/query/1.2.3.4');
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/query/1.2.3.4', { signal: expect.any(AbortSignal) });
       expect(result).toEqual({
         ip: '1.2.3.4',
         tags: ['malware', 'botnet'],
@@ -121,7 +139,8 @@ describe('GuardianIntelClient', () => {
             timestamp: '2023-06-15T12:00:00Z',
             severity: 'high'
           }
-        }
+        },
+        cache: { hit: false, age_seconds: 0 }
       });
     });
 
@@ -141,7 +160,7 @@ describe('GuardianIntelClient', () => {
 
       const result = await client.lookupIp('2001:0db8:85a3:0000:0000:8a2e:0370:7334');
 
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/query/2001%3A0db8%3A85a3%3A0000%3A0000%3A8a2e%3A0370%3A7334');
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/query/2001%3Adb8%3A85a3%3A%3A8a2e%3A370%3A7334', { signal: expect.any(AbortSignal) });
       expect(result).toEqual({
         ip: '2001:0db8:85a3:0000:0000:8a2e:0370:7334',
         tags: ['malware', 'botnet'],
@@ -166,10 +185,29 @@ describe('GuardianIntelClient', () => {
             timestamp: '2023-06-15T12:00:00Z',
             severity: 'high'
           }
-        }
+        },
+        cache: { hit: false, age_seconds: 0 }
       });
     });
 
+    it('should look up compressed IPv6 addresses by their canonical form', async () => {
+      mockAxiosInstance.get.mockResolvedValue(mockLookupResponse);
+
+      await client.lookupIp('2001:DB8:0:0::1');
+      await client.lookupIp('2001:db8::1');
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/query/2001%3Adb8%3A%3A1', { signal: expect.any(AbortSignal) });
+    });
+
+    it('should unwrap IPv4-mapped IPv6 addresses before the lookup', async () => {
+      mockAxiosInstance.get.mockResolvedValue(mockLookupResponse);
+
+      await client.lookupIp('::ffff:1.2.3.4');
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/query/1.2.3.4', { signal: expect.any(AbortSignal) });
+    });
+
     it('should reject invalid IP address format', async () => {
       await expect(client.lookupIp('invalid-ip')).rejects.toThrow('Invalid IP address format');
       expect(mockAxiosInstance.get).not.toHaveBeenCalled();
@@ -188,6 +226,156 @@ describe('GuardianIntelClient', () => {
     });
   });
 
+  describe('lookupIps', () => {
+    it('should deduplicate by canonical form and report per-IP errors', async () => {
+      mockAxiosInstance.get.mockImplementation(async (path: string) => {
+        if (path === '/query/5.6.7.8') {
+          throw { response: { status: 404, headers: {} } };
+        }
+        const ip = decodeURIComponent(path.replace('/query/', ''));
+        return { data: { result: { item: ip, tags: [], intent: 'unknown' } } };
+      });
+
+      const result = await client.lookupIps(['1.2.3.4', '::ffff:1.2.3.4', '2001:db8::1', '5.6.7.8', 'bogus'], {
+        concurrency: 2
+      });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(3);
+      expect(result.requested).toBe(5);
+      expect(result.unique).toBe(3);
+      expect(result.results.map(r => r.ip)).toEqual(['1.2.3.4', '2001:db8::1']);
+      expect(result.errors).toEqual([
+        { ip: 'bogus', error: 'Invalid IP address format', type: 'ValidationError' },
+        {
+          ip: '5.6.7.8',
+          error: 'Guardian Intel API Error (404): Resource not found',
+          type: 'NotFoundError',
+          status: 404
+        }
+      ]);
+    });
+  });
+
+  describe('quota', () => {
+    it('should track the quota reported in response headers', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { result: [] },
+        headers: { 'x-quota-limit': '1000', 'x-quota-remaining': '80' }
+      });
+
+      expect(client.getQuotaStatus()).toBeUndefined();
+      await client.getTags();
+
+      expect(client.getQuotaStatus()).toMatchObject({ source: 'quota', limit: 1000, remaining: 80, low: true });
+    });
+
+    it('should refuse bulk lookups below the soft limit unless forced', async () => {
+      const quotaClient = new GuardianIntelClient({
+        apiKey: 'test-api-key',
+        rateLimit: { enabled: false },
+        quota: { softLimit: 10 }
+      });
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { result: { item: '1.2.3.4', tags: [], intent: 'unknown' } },
+        headers: { 'x-quota-remaining': '11' }
+      });
+      await quotaClient.lookupIp('9.9.9.9');
+      mockAxiosInstance.get.mockClear();
+
+      await expect(quotaClient.lookupIps(['1.2.3.4', '5.6.7.8'])).rejects.toThrow(
+        'Refusing bulk lookup: it needs up to 2 request(s) and only 11 remain against a soft limit of 10'
+      );
+      expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+
+      const result = await quotaClient.lookupIps(['1.2.3.4', '5.6.7.8'], { force: true });
+      expect(result.results).toHaveLength(2);
+    });
+  });
+
+  describe('response validation', () => {
+    it('should name the malformed field', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { result: { item: '1.2.3.4', tags: 'malware' } }
+      });
+
+      await expect(client.lookupIp('1.2.3.4')).rejects.toThrow(
+        'Malformed response at result.tags: expected array, got string'
+      );
+    });
+
+    it('should keep unknown fields under extra', async () => {
+      mockAxiosInstance.get.mockResolvedValue({
+        data: {
+          result: {
+            item: '1.2.3.4',
+            intent: 'malicious',
+            riskScore: 87,
+            asn: { asn: '12345', name: 'Test ASN', countryCode: 'US', registry: 'arin' }
+          }
+        }
+      });
+
+      const result = await client.lookupIp('1.2.3.4');
+
+      expect(result.extra).toEqual({ riskScore: 87 });
+      expect(result.asn?.extra).toEqual({ registry: 'arin' });
+    });
+
+    it('should keep unknown fields of tags and tag pages', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({ data: { result: [{ name: 'tool:scanner', intent: 'suspicious', severity: 3 }] } })
+        .mockResolvedValueOnce({ data: { result: { entries: ['1.2.3.4'], total: 1, generatedAt: '2024-01-01' } } });
+
+      const tags = await client.getTags(true);
+      const page = await client.getTagIps('tool:scanner');
+
+      expect(tags.tag_details?.[0].extra).toEqual({ severity: 3 });
+      expect(page.extra).toEqual({ generatedAt: '2024-01-01' });
+    });
+  });
+
+  describe('request coalescing', () => {
+    it('should share one request between identical concurrent lookups', async () => {
+      let resolveRequest!: (value: unknown) => void;
+      mockAxiosInstance.get.mockReturnValue(new Promise(resolve => {
+        resolveRequest = resolve;
+      }));
+
+      const first = client.getTagDetails('tool:scanner');
+      const second = client.getTagDetails('tool:scanner');
+      resolveRequest({ data: { result: { name: 'tool:scanner', intent: 'suspicious' } } });
+
+      const [a, b] = await Promise.all([first, second]);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+      expect(a.tag).toBe('tool:scanner');
+      expect(b.tag).toBe('tool:scanner');
+    });
+
+    it('should deliver the same error to every waiter', async () => {
+      mockAxiosInstance.get.mockRejectedValue({ response: { status: 404, headers: {} } });
+
+      const results = await Promise.allSettled([
+        client.getTagDetails('missing'),
+        client.getTagDetails('missing')
+      ]);
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+      expect(results.map(r => r.status)).toEqual(['rejected', 'rejected']);
+      expect((results[0] as PromiseRejectedResult).reason).toBe((results[1] as PromiseRejectedResult).reason);
+    });
+
+    it('should not share requests with different parameters', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: { result: { entries: [], total: 0 } } });
+
+      await Promise.all([
+        client.getTagIps('tool:scanner', { offset: 0 }),
+        client.getTagIps('tool:scanner', { offset: 1000 })
+      ]);
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('getTags', () => {
     const mockTagsResponse = {
       data: {
@@ -212,10 +400,11 @@ describe('GuardianIntelClient', () => {
 
       const result = await client.getTags(false);
 
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/tags', { params: {} });
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/tags', { params: {}, signal: expect.any(AbortSignal) });
       expect(result).toEqual({
         tags: ['credentials:brute-force', 'tool:scanner'],
-        tag_details: undefined
+        tag_details: undefined,
+        cache: { hit: false, age_seconds: 0 }
       });
     });
 
@@ -225,7 +414,8 @@ describe('GuardianIntelClient', () => {
       const result = await client.getTags(true);
 
       expect(mockAxiosInstance.get).toHaveBeenCalledWith('/tags', { 
-        params: { includeDescriptions: 'true' } 
+        params: { includeDescriptions: 'true' },
+        signal: expect.any(AbortSignal)
       });
       expect(result).toEqual({
         tags: ['credentials:brute-force', 'tool:scanner'],
@@ -241,7 +431,8 @@ describe('GuardianIntelClient', () => {
             intent: 'suspicious',
             category: 'tool'
           }
-        ]
+        ],
+        cache: { hit: false, age_seconds: 0 }
       });
     });
 
@@ -270,13 +461,14 @@ describe('GuardianIntelClient', () => {
 
       const result = await client.getTagDetails('credentials:brute-force');
 
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/tags/credentials%3Abrute-force');
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/tags/credentials%3Abrute-force', { signal: expect.any(AbortSignal) });
       expect(result).toEqual({
         tag: 'credentials:brute-force',
         description: 'Brute force credential attacks',
         category: 'activity',
         confidence: 'high',
-        intent: 'malicious'
+        intent: 'malicious',
+        cache: { hit: false, age_seconds: 0 }
       });
     });
 
@@ -320,7 +512,8 @@ describe('GuardianIntelClient', () => {
         params: {
           offset: '0',
           limit: '1000'
-        }
+        },
+        signal: expect.any(AbortSignal)
       });
       expect(result).toEqual({
         tag: 'credentials:brute-force',
@@ -356,13 +549,15 @@ describe('GuardianIntelClient', () => {
           offset: '100',
           limit: '500',
           snapshot: 'test-snapshot'
-        }
+        },
+        signal: expect.any(AbortSignal)
       });
       expect(result).toEqual({
         tag: 'test-tag',
         total: 1000,
         offset: 100,
         limit: 500,
+        snapshot: 'test-snapshot',
         ips: ['1.2.3.4', '5.6.7.8', '9.10.11.12']
       });
     });
@@ -398,6 +593,409 @@ describe('GuardianIntelClient', () => {
     });
   });
 
+  describe('caching', () => {
+    const mockLookupResponse = {
+      data: {
+        result: {
+          item: '1.2.3.4',
+          tags: ['malware'],
+          intent: 'malicious'
+        }
+      }
+    };
+
+    it('should serve repeated lookups from cache', async () => {
+      mockAxiosInstance.get.mockResolvedValue(mockLookupResponse);
+
+      await client.lookupIp('1.2.3.4');
+      const result = await client.lookupIp('1.2.3.4');
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+      expect(result.cache).toEqual({ hit: true, age_seconds: 0 });
+      expect(result.tags).toEqual(['malware']);
+    });
+
+    it('should bypass cache when fresh is requested', async () => {
+      mockAxiosInstance.get.mockResolvedValue(mockLookupResponse);
+
+      await client.lookupIp('1.2.3.4');
+      const result = await client.lookupIp('1.2.3.4', { fresh: true });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+      expect(result.cache).toEqual({ hit: false, age_seconds: 0 });
+    });
+
+    it('should report the age of cached data and expire it after the TTL', async () => {
+      jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+      try {
+        const ttlClient = new GuardianIntelClient({
+          apiKey: 'test-api-key',
+          cache: { lookupTtlMs: 60000 },
+          rateLimit: { enabled: false }
+        });
+        mockAxiosInstance.get.mockResolvedValue(mockLookupResponse);
+
+        await ttlClient.lookupIp('1.2.3.4');
+        jest.setSystemTime(new Date('2024-01-01T00:00:30Z'));
+        const cached = await ttlClient.lookupIp('1.2.3.4');
+        jest.setSystemTime(new Date('2024-01-01T00:01:01Z'));
+        const expired = await ttlClient.lookupIp('1.2.3.4');
+
+        expect(cached.cache).toEqual({ hit: true, age_seconds: 30 });
+        expect(expired.cache).toEqual({ hit: false, age_seconds: 0 });
+        expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should cache tags separately per description mode', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: { result: [{ name: 'tool:scanner' }] } });
+
+      await client.getTags(false);
+      await client.getTags(true);
+      await client.getTags(true);
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache when disabled', async () => {
+      const uncachedClient = new GuardianIntelClient({
+        apiKey: 'test-api-key',
+        cache: { enabled: false },
+        rateLimit: { enabled: false }
+      });
+      mockAxiosInstance.get.mockResolvedValue(mockLookupResponse);
+
+      await uncachedClient.lookupIp('1.2.3.4');
+      await uncachedClient.lookupIp('1.2.3.4');
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('retries', () => {
+    const mockLookupResponse = {
+      data: { result: { item: '1.2.3.4', tags: [], intent: 'unknown' } }
+    };
+
+    beforeEach(() => {
+      client = new GuardianIntelClient({
+        apiKey: 'test-api-key',
+        retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 },
+        rateLimit: { enabled: false }
+      });
+    });
+
+    it('should retry transient upstream errors and succeed', async () => {
+      mockAxiosInstance.get
+        .mockRejectedValueOnce({ response: { status: 503, headers: {} } })
+        .mockRejectedValueOnce({ code: 'ECONNRESET', message: 'socket hang up' })
+        .mockResolvedValueOnce(mockLookupResponse);
+
+      const result = await client.lookupIp('1.2.3.4');
+
+      expect(result.ip).toBe('1.2.3.4');
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('should report the number of attempts when retries are exhausted', async () => {
+      mockAxiosInstance.get.mockRejectedValue({ response: { status: 429, headers: {} } });
+
+      await expect(client.lookupIp('1.2.3.4'))
+        .rejects.toThrow('Guardian Intel API Error (429): Rate limit exceeded (after 3 attempts)');
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry client errors', async () => {
+      mockAxiosInstance.get.mockRejectedValue({ response: { status: 401, headers: {} } });
+
+      await expect(client.lookupIp('1.2.3.4'))
+        .rejects.toThrow('Guardian Intel API Error (401): Invalid or missing API key');
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('iterateTagIps', () => {
+    const page = (entries: string[], total?: number, snapshot?: string) => ({
+      data: { result: { tag: 'tool:scanner', entries, total, snapshot } }
+    });
+
+    const collect = async (iterator: AsyncIterable<{ ips: string[] }>) => {
+      const pages: string[][] = [];
+      for await (const result of iterator) {
+        pages.push(result.ips);
+      }
+      return pages;
+    };
+
+    it('should pin the snapshot from the first page', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce(page(['1.1.1.1', '2.2.2.2'], 3, 'snap-1'))
+        .mockResolvedValueOnce(page(['3.3.3.3'], 3));
+
+      const pages = await collect(client.iterateTagIps('tool:scanner', { pageSize: 2 }));
+
+      expect(pages).toEqual([['1.1.1.1', '2.2.2.2'], ['3.3.3.3']]);
+      expect(mockAxiosInstance.get).toHaveBeenNthCalledWith(2, '/tags/tool%3Ascanner/ips', {
+        params: { offset: '2', limit: '2', snapshot: 'snap-1' },
+        signal: expect.any(AbortSignal)
+      });
+    });
+
+    it('should keep going after short pages while the total says there is more', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce(page(['1.1.1.1'], 3))
+        .mockResolvedValueOnce(page(['2.2.2.2'], 3))
+        .mockResolvedValueOnce(page(['3.3.3.3'], 3));
+
+      const pages = await collect(client.iterateTagIps('tool:scanner', { pageSize: 2 }));
+
+      expect(pages).toHaveLength(3);
+    });
+
+    it('should follow a total that changes mid-walk', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce(page(['1.1.1.1', '2.2.2.2'], 4))
+        .mockResolvedValueOnce(page(['3.3.3.3'], 3));
+
+      const pages = await collect(client.iterateTagIps('tool:scanner', { pageSize: 2 }));
+
+      expect(pages).toEqual([['1.1.1.1', '2.2.2.2'], ['3.3.3.3']]);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop on a short page when no total is reported', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce(page(['1.1.1.1', '2.2.2.2']))
+        .mockResolvedValueOnce(page(['3.3.3.3']));
+
+      const pages = await collect(client.iterateTagIps('tool:scanner', { pageSize: 2 }));
+
+      expect(pages).toHaveLength(2);
+    });
+
+    it('should stop on an empty page', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce(page(['1.1.1.1', '2.2.2.2'], 10))
+        .mockResolvedValueOnce(page([], 10));
+
+      const pages = await collect(client.iterateTagIps('tool:scanner', { pageSize: 2 }));
+
+      expect(pages).toHaveLength(1);
+    });
+  });
+
+  describe('hooks', () => {
+    it('should report each attempt, the retry and the final response', async () => {
+      const hooks = { onRequest: jest.fn(), onResponse: jest.fn(), onRetry: jest.fn(), onError: jest.fn() };
+      const hookedClient = new GuardianIntelClient({
+        apiKey: 'test-api-key',
+        retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 },
+        rateLimit: { enabled: false },
+        hooks
+      });
+      mockAxiosInstance.get
+        .mockRejectedValueOnce({ response: { status: 503, headers: {} } })
+        .mockResolvedValueOnce({ status: 200, data: { result: { entries: ['1.2.3.4'], total: 1 } } });
+
+      await hookedClient.getTagIps('tool:scanner', { limit: 5 });
+
+      const base = {
+        endpoint: 'tag_ips',
+        method: 'GET',
+        path: '/tags/tool%3Ascanner/ips',
+        params: { offset: '0', limit: '5' },
+        cacheHit: false
+      };
+      expect(hooks.onRequest.mock.calls.map(([event]) => event)).toEqual([
+        { ...base, attempt: 1 },
+        { ...base, attempt: 2 }
+      ]);
+      expect(hooks.onRetry).toHaveBeenCalledWith(expect.objectContaining({
+        ...base,
+        attempt: 1,
+        status: 503,
+        delayMs: expect.any(Number),
+        durationMs: expect.any(Number),
+        error: expect.objectContaining({ name: 'UpstreamUnavailableError' })
+      }));
+      expect(hooks.onResponse).toHaveBeenCalledWith({ ...base, attempt: 2, status: 200, durationMs: expect.any(Number) });
+      expect(hooks.onError).not.toHaveBeenCalled();
+    });
+
+    it('should report final failures and cache hits', async () => {
+      const log: string[] = [];
+      const record = (name: string) => (event: RequestEvent) => {
+        log.push(`${name} ${event.path} ${event.attempt} ${event.cacheHit}`);
+      };
+      const onError = jest.fn(record('onError'));
+      const hookedClient = new GuardianIntelClient({
+        apiKey: 'test-api-key',
+        rateLimit: { enabled: false },
+        hooks: { onRequest: record('onRequest'), onResponse: record('onResponse'), onError }
+      });
+      mockAxiosInstance.get
+        .mockRejectedValueOnce({ response: { status: 404, headers: {} } })
+        .mockResolvedValueOnce({ status: 200, data: { result: { item: '1.2.3.4', tags: [] } } });
+
+      await expect(hookedClient.lookupIp('5.6.7.8')).rejects.toThrow('(404)');
+      await hookedClient.lookupIp('1.2.3.4');
+      await hookedClient.lookupIp('1.2.3.4');
+
+      expect(log).toEqual([
+        'onRequest /query/5.6.7.8 1 false',
+        'onError /query/5.6.7.8 1 false',
+        'onRequest /query/1.2.3.4 1 false',
+        'onResponse /query/1.2.3.4 1 false',
+        'onRequest /query/1.2.3.4 0 true',
+        'onResponse /query/1.2.3.4 0 true'
+      ]);
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+        status: 404,
+        error: expect.objectContaining({ name: 'NotFoundError' })
+      }));
+    });
+
+    it('should feed the built-in metrics through the same hooks', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ status: 200, data: { result: [{ name: 'tool:scanner' }] } });
+
+      await client.getTags();
+      await client.getTags();
+
+      expect(client.getMetrics().endpoints.tags).toMatchObject({ requests: 1, cache_hits: 1, retries: 0, errors: 0 });
+    });
+  });
+
+  describe('fetchAllTagIps', () => {
+    it('should collect every page', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({ data: { result: { entries: ['1.1.1.1', '2.2.2.2'], total: 3, snapshot: 'snap-1' } } })
+        .mockResolvedValueOnce({ data: { result: { entries: ['3.3.3.3'], total: 3 } } });
+
+      const result = await client.fetchAllTagIps('tool:scanner', { pageSize: 2 });
+
+      expect(result).toEqual({
+        tag: 'tool:scanner',
+        snapshot: 'snap-1',
+        total: 3,
+        ips: ['1.1.1.1', '2.2.2.2', '3.3.3.3'],
+        pages: 2,
+        truncated: false
+      });
+    });
+
+    it('should stop at maxEntries and flag the result as truncated', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({ data: { result: { entries: ['1.1.1.1', '2.2.2.2'], total: 5 } } });
+
+      const result = await client.fetchAllTagIps('tool:scanner', { pageSize: 2, maxEntries: 2 });
+
+      expect(result.ips).toEqual(['1.1.1.1', '2.2.2.2']);
+      expect(result.truncated).toBe(true);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should not send a request when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(client.lookupIp('1.2.3.4', { signal: controller.signal })).rejects.toThrow(RequestAbortedError);
+      expect(mockAxiosInstance.get).not.toHaveBeenCalled();
+    });
+
+    it('should abort the HTTP request and reject promptly when cancelled', async () => {
+      const controller = new AbortController();
+      let httpSignal: AbortSignal | undefined;
+      mockAxiosInstance.get.mockImplementation((_path: string, config: { signal: AbortSignal }) => {
+        httpSignal = config.signal;
+        return new Promise(() => undefined);
+      });
+
+      const lookup = client.getTagDetails('tool:scanner', { signal: controller.signal });
+      await Promise.resolve();
+      controller.abort();
+
+      await expect(lookup).rejects.toThrow('Guardian Intel API request was cancelled');
+      expect(httpSignal?.aborted).toBe(true);
+    });
+
+    it('should stop issuing bulk lookups once cancelled', async () => {
+      const controller = new AbortController();
+      mockAxiosInstance.get.mockImplementation(async (path: string) => {
+        controller.abort();
+        return { data: { result: { item: decodeURIComponent(path.replace('/query/', '')), tags: [] } } };
+      });
+
+      await expect(client.lookupIps(['1.1.1.1', '2.2.2.2', '3.3.3.3'], {
+        concurrency: 1,
+        signal: controller.signal
+      })).rejects.toThrow('Bulk lookup was cancelled after 1 of 3 address(es)');
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not request further pages once cancelled', async () => {
+      const controller = new AbortController();
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { result: { entries: ['1.1.1.1', '2.2.2.2'], total: 6, snapshot: 'snap-1' } }
+      });
+
+      const pages: string[][] = [];
+      const walk = async () => {
+        for await (const page of client.iterateTagIps('tool:scanner', { pageSize: 2, signal: controller.signal })) {
+          pages.push(page.ips);
+          controller.abort();
+        }
+      };
+
+      await expect(walk()).rejects.toThrow('Walking tool:scanner was cancelled at offset 2');
+      expect(pages).toHaveLength(1);
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should fail fast once repeated upstream failures open the circuit', async () => {
+      const onCircuitStateChange = jest.fn();
+      const breakerClient = new GuardianIntelClient({
+        apiKey: 'test-api-key',
+        retry: { maxRetries: 0 },
+        rateLimit: { enabled: false },
+        circuitBreaker: { minimumRequests: 2, openDurationMs: 60000 },
+        onCircuitStateChange
+      });
+      mockAxiosInstance.get.mockRejectedValue({ response: { status: 503, headers: {} } });
+
+      await expect(breakerClient.getTagDetails('a')).rejects.toThrow('(503)');
+      await expect(breakerClient.getTagDetails('b')).rejects.toThrow('(503)');
+      await expect(breakerClient.getTagDetails('c')).rejects.toThrow('Guardian Intel upstream degraded');
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(2);
+      expect(breakerClient.getCircuitBreakerState()?.state).toBe('open');
+      expect(onCircuitStateChange).toHaveBeenCalledWith(expect.objectContaining({ from: 'closed', to: 'open' }));
+    });
+
+    it('should not let a cancelled half-open probe close the circuit', async () => {
+      const breakerClient = new GuardianIntelClient({
+        apiKey: 'test-api-key',
+        retry: { maxRetries: 0 },
+        rateLimit: { enabled: false },
+        circuitBreaker: { minimumRequests: 2, openDurationMs: 0 }
+      });
+      mockAxiosInstance.get.mockRejectedValue({ response: { status: 503, headers: {} } });
+      await expect(breakerClient.getTagDetails('a')).rejects.toThrow('(503)');
+      await expect(breakerClient.getTagDetails('b')).rejects.toThrow('(503)');
+      expect(breakerClient.getCircuitBreakerState()?.state).toBe('half_open');
+
+      mockAxiosInstance.get.mockRejectedValueOnce({ code: 'ERR_CANCELED', message: 'canceled' });
+      await expect(breakerClient.getTagDetails('c')).rejects.toBeInstanceOf(RequestAbortedError);
+
+      expect(breakerClient.getCircuitBreakerState()?.state).toBe('half_open');
+    });
+  });
+
   describe('healthCheck', () => {
     it('should return true when API is healthy', async () => {
       mockAxiosInstance.get.mockResolvedValue({ data: { status: 'success' } });
@@ -0,0 +1,114 @@
+import { jest, describe, it, expect } from '@jest/globals';
+import {
+  combineHooks,
+  createLoggingHooks,
+  redactParams,
+  RequestEvent,
+  RequestMetrics
+} from '../src/instrumentation';
+import { UpstreamUnavailableError } from '../src/errors';
+
+describe('instrumentation', () => {
+  const event: RequestEvent = {
+    endpoint: 'tag_ips',
+    method: 'GET',
+    path: '/tags/tool%3Ascanner/ips',
+    params: { offset: '0', limit: '10' },
+    attempt: 1,
+    cacheHit: false
+  };
+  const upstreamError = new UpstreamUnavailableError('Guardian Intel API Error (503): Service temporarily unavailable', {
+    status: 503,
+    endpoint: 'tag_ips'
+  });
+
+  describe('redactParams', () => {
+    it('should redact parameters that look like credentials and stringify the rest', () => {
+      expect(redactParams({ limit: 10, apiKey: 'secret', access_token: 'abc', snapshot: undefined })).toEqual({
+        limit: '10',
+        apiKey: '[REDACTED]',
+        access_token: '[REDACTED]'
+      });
+    });
+  });
+
+  describe('combineHooks', () => {
+    it('should call every hook in order and survive hooks that throw', () => {
+      const calls: string[] = [];
+      const hooks = combineHooks(
+        { onRequest: () => { calls.push('first'); throw new Error('broken hook'); } },
+        undefined,
+        { onRequest: () => calls.push('second'), onResponse: () => calls.push('response') }
+      );
+
+      expect(() => hooks.onRequest?.(event)).not.toThrow();
+      expect(calls).toEqual(['first', 'second']);
+      expect(hooks.onError).toBeUndefined();
+    });
+  });
+
+  describe('createLoggingHooks', () => {
+    it('should write one line per event', () => {
+      const lines: string[] = [];
+      const hooks = createLoggingHooks(line => lines.push(line));
+
+      hooks.onRequest?.(event);
+      hooks.onRetry?.({ ...event, status: 503, durationMs: 12, delayMs: 250, error: upstreamError });
+      hooks.onResponse?.({ ...event, attempt: 2, status: 200, durationMs: 40 });
+      hooks.onRequest?.({ ...event, attempt: 0, cacheHit: true });
+      hooks.onResponse?.({ ...event, attempt: 0, cacheHit: true, durationMs: 0 });
+
+      expect(lines).toEqual([
+        '[guardian-intel] → GET /tags/tool%3Ascanner/ips?offset=0&limit=10 (attempt 1)',
+        '[guardian-intel] ↻ GET /tags/tool%3Ascanner/ips?offset=0&limit=10 failed (Guardian Intel API Error (503): Service temporarily unavailable), retrying in 250 ms',
+        '[guardian-intel] ← 200 GET /tags/tool%3Ascanner/ips?offset=0&limit=10 in 40 ms',
+        '[guardian-intel] ✓ GET /tags/tool%3Ascanner/ips?offset=0&limit=10 served from cache'
+      ]);
+    });
+  });
+
+  describe('RequestMetrics', () => {
+    it('should count requests, cache hits, retries and errors per endpoint', () => {
+      const metrics = new RequestMetrics(() => Date.parse('2024-01-01T00:00:00Z'));
+      const hooks = metrics.hooks;
+
+      hooks.onRequest?.(event);
+      hooks.onRetry?.({ ...event, status: 503, durationMs: 20, delayMs: 100, error: upstreamError });
+      hooks.onRequest?.({ ...event, attempt: 2 });
+      hooks.onResponse?.({ ...event, attempt: 2, status: 200, durationMs: 40 });
+      hooks.onRequest?.({ ...event, attempt: 0, cacheHit: true });
+      hooks.onResponse?.({ ...event, attempt: 0, cacheHit: true, durationMs: 0 });
+      hooks.onRequest?.({ ...event, endpoint: 'lookup' });
+      hooks.onError?.({ ...event, endpoint: 'lookup', status: 503, durationMs: 60, error: upstreamError });
+
+      expect(metrics.snapshot()).toEqual({
+        since: '2024-01-01T00:00:00.000Z',
+        endpoints: {
+          tag_ips: { requests: 2, cache_hits: 1, retries: 1, errors: 0, avg_duration_ms: 30, max_duration_ms: 40 },
+          lookup: { requests: 1, cache_hits: 0, retries: 0, errors: 1, avg_duration_ms: 60, max_duration_ms: 60 }
+        },
+        errors_by_type: { UpstreamUnavailableError: 1 }
+      });
+    });
+
+    it('should start over after a reset', () => {
+      const metrics = new RequestMetrics();
+      metrics.hooks.onRequest?.(event);
+
+      metrics.reset();
+
+      expect(metrics.snapshot().endpoints).toEqual({});
+    });
+  });
+
+  it('should keep the built-in metrics and caller hooks independent', () => {
+    const metrics = new RequestMetrics();
+    const onRequest = jest.fn();
+    const hooks = combineHooks(metrics.hooks, { onRequest });
+
+    hooks.onRequest?.(event);
+
+    expect(onRequest).toHaveBeenCalledWith(event);
+    expect(metrics.snapshot().endpoints.tag_ips?.requests).toBe(1);
+  });
+});
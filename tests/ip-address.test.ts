@@ -0,0 +1,148 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  cidrHostRange,
+  expandCidr,
+  findSpecialRange,
+  formatIpv6,
+  IP_ADDRESS_PATTERN,
+  isValidIp,
+  normalizeIp,
+  parseCidr,
+  parseIp
+} from '../src/ip-address';
+
+describe('ip-address', () => {
+  describe('parseIp', () => {
+    it('should parse IPv4 addresses', () => {
+      expect(parseIp('192.0.2.1')).toEqual({ version: 4, address: '192.0.2.1', value: 0xc0000201n });
+    });
+
+    it.each([
+      ['2001:0db8:85a3:0000:0000:8a2e:0370:7334', '2001:db8:85a3::8a2e:370:7334'],
+      ['2001:db8::1', '2001:db8::1'],
+      ['2001:DB8:0:0:1:0:0:1', '2001:db8::1:0:0:1'],
+      ['2001:db8:0:1:1:1:1:1', '2001:db8:0:1:1:1:1:1'],
+      ['::1', '::1'],
+      ['::', '::'],
+      ['fe80::', 'fe80::'],
+      ['64:ff9b::192.0.2.33', '64:ff9b::c000:221']
+    ])('should canonicalize %s to %s', (input, expected) => {
+      expect(parseIp(input)).toMatchObject({ version: 6, address: expected });
+    });
+
+    it('should unwrap IPv4-mapped addresses', () => {
+      expect(parseIp('::ffff:1.2.3.4')).toMatchObject({ version: 4, address: '1.2.3.4' });
+      expect(parseIp('::FFFF:0102:0304')).toMatchObject({ version: 4, address: '1.2.3.4' });
+    });
+
+    it('should split off zone identifiers', () => {
+      expect(parseIp('fe80::1%eth0')).toMatchObject({ version: 6, address: 'fe80::1', zone: 'eth0' });
+    });
+
+    it.each([
+      '',
+      'not-an-ip',
+      '256.1.1.1',
+      '1.2.3',
+      '2001:db8::1::1',
+      '2001:db8:1:2:3:4:5:6:7',
+      '12345::1',
+      'fe80::1%',
+      ' 1.2.3.4'
+    ])('should reject %p', input => {
+      expect(parseIp(input)).toBeNull();
+      expect(isValidIp(input)).toBe(false);
+    });
+  });
+
+  describe('normalizeIp', () => {
+    it('should return the canonical form', () => {
+      expect(normalizeIp('2001:0DB8::0001')).toBe('2001:db8::1');
+      expect(normalizeIp('invalid')).toBeNull();
+    });
+  });
+
+  describe('formatIpv6', () => {
+    it('should compress the leftmost of equally long zero runs', () => {
+      expect(formatIpv6(0x20010db8000000000001000000000001n)).toBe('2001:db8::1:0:0:1');
+    });
+
+    it('should not compress a single zero group', () => {
+      expect(formatIpv6(0x20010db8000000010001000100010001n)).toBe('2001:db8:0:1:1:1:1:1');
+    });
+  });
+
+  describe('parseCidr', () => {
+    it('should parse prefixes and clear host bits', () => {
+      expect(parseCidr('192.0.2.77/28')).toEqual({ version: 4, network: 0xc0000240n, prefixLength: 28, cidr: '192.0.2.64/28' });
+      expect(parseCidr('2001:DB8::1/64')?.cidr).toBe('2001:db8::/64');
+    });
+
+    it('should treat a bare address as a single host', () => {
+      expect(parseCidr('192.0.2.1')?.cidr).toBe('192.0.2.1/32');
+      expect(parseCidr('2001:db8::1')?.cidr).toBe('2001:db8::1/128');
+    });
+
+    it('should reject invalid prefixes', () => {
+      for (const input of ['192.0.2.0/33', '2001:db8::/129', '192.0.2.0/', '192.0.2.0/24/1', 'fe80::1%eth0/64', 'example.com/24']) {
+        expect(parseCidr(input)).toBeNull();
+      }
+    });
+  });
+
+  describe('expandCidr', () => {
+    it('should leave out the IPv4 network and broadcast addresses', () => {
+      const cidr = parseCidr('192.0.2.0/29')!;
+
+      expect(cidrHostRange(cidr).count).toBe(6n);
+      expect([...expandCidr(cidr)]).toEqual(['192.0.2.1', '192.0.2.2', '192.0.2.3', '192.0.2.4', '192.0.2.5', '192.0.2.6']);
+    });
+
+    it('should keep every address of /31, /32 and IPv6 prefixes', () => {
+      expect([...expandCidr(parseCidr('192.0.2.0/31')!)]).toEqual(['192.0.2.0', '192.0.2.1']);
+      expect([...expandCidr(parseCidr('2001:db8::/126')!)]).toEqual(['2001:db8::', '2001:db8::1', '2001:db8::2', '2001:db8::3']);
+    });
+
+    it('should count large prefixes without expanding them', () => {
+      expect(cidrHostRange(parseCidr('2001:db8::/64')!).count).toBe(2n ** 64n);
+    });
+  });
+
+  describe('findSpecialRange', () => {
+    it('should name the special-purpose range an address belongs to', () => {
+      const kind = (ip: string) => findSpecialRange(parseIp(ip)!)?.kind;
+
+      expect(kind('172.31.255.255')).toBe('private');
+      expect(kind('172.32.0.1')).toBeUndefined();
+      expect(kind('100.64.1.1')).toBe('shared');
+      expect(kind('203.0.113.9')).toBe('documentation');
+      expect(kind('198.19.0.1')).toBe('benchmarking');
+      expect(kind('255.255.255.255')).toBe('reserved');
+      expect(kind('::1')).toBe('loopback');
+      expect(kind('fd12::1')).toBe('private');
+      expect(kind('3fff::1')).toBe('documentation');
+      expect(kind('ff02::1')).toBe('multicast');
+      expect(kind('2606:4700::1111')).toBeUndefined();
+    });
+
+    it('should report the matching range', () => {
+      expect(findSpecialRange(parseIp('::ffff:192.168.1.1')!)).toEqual({ cidr: '192.168.0.0/16', kind: 'private' });
+    });
+  });
+
+  describe('IP_ADDRESS_PATTERN', () => {
+    const pattern = new RegExp(IP_ADDRESS_PATTERN);
+
+    it('should accept the same inputs as parseIp', () => {
+      for (const input of ['1.2.3.4', '2001:db8::1', '::ffff:1.2.3.4', 'fe80::1%eth0', '::']) {
+        expect(pattern.test(input)).toBe(true);
+        expect(isValidIp(input)).toBe(true);
+      }
+
+      for (const input of ['1.2.3', '2001:db8::1::1', 'example.com']) {
+        expect(pattern.test(input)).toBe(false);
+        expect(isValidIp(input)).toBe(false);
+      }
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+import { IpSet } from '../src/ip-set';
+
+describe('IpSet', () => {
+  it('should add, find and delete IPv4 addresses', () => {
+    const set = new IpSet();
+
+    expect(set.add('192.0.2.1')).toBe(true);
+    expect(set.add('192.0.2.1')).toBe(false);
+    expect(set.add('255.255.255.255')).toBe(true);
+    expect(set.add('0.0.0.0')).toBe(true);
+
+    expect(set.size).toBe(3);
+    expect(set.has('192.0.2.1')).toBe(true);
+    expect(set.has('192.0.2.2')).toBe(false);
+
+    expect(set.delete('192.0.2.1')).toBe(true);
+    expect(set.delete('192.0.2.1')).toBe(false);
+    expect(set.has('192.0.2.1')).toBe(false);
+    expect([...set].sort()).toEqual(['0.0.0.0', '255.255.255.255']);
+  });
+
+  it('should treat different spellings of an address as one', () => {
+    const set = IpSet.from(['2001:DB8::1', '2001:db8:0:0:0:0:0:1', '::ffff:192.0.2.7', '192.0.2.7']);
+
+    expect(set.size).toBe(2);
+    expect(set.has('2001:db8::1')).toBe(true);
+    expect([...set].sort()).toEqual(['192.0.2.7', '2001:db8::1']);
+  });
+
+  it('should keep entries that are not plain addresses', () => {
+    const set = IpSet.from(['192.0.2.0/24', '192.0.2.0/24', '10.0.0.1']);
+
+    expect(set.size).toBe(2);
+    expect(set.has('192.0.2.0/24')).toBe(true);
+  });
+
+  it('should stay consistent through growth and heavy deletion', () => {
+    const set = new IpSet();
+    const address = (i: number) => `10.${(i >> 16) & 255}.${(i >> 8) & 255}.${i & 255}`;
+
+    for (let i = 0; i < 20000; i++) {
+      set.add(address(i));
+    }
+    for (let i = 0; i < 20000; i += 2) {
+      set.delete(address(i));
+    }
+
+    expect(set.size).toBe(10000);
+    for (let i = 0; i < 20000; i++) {
+      expect(set.has(address(i))).toBe(i % 2 === 1);
+    }
+    expect(new Set(set.values()).size).toBe(10000);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  AuthenticationError,
+  CircuitOpenError,
+  ForbiddenError,
+  GuardianIntelError,
+  MalformedResponseError,
+  NetworkError,
+  NotFoundError,
+  QuotaThresholdError,
+  RateLimitError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  UpstreamUnavailableError,
+  ValidationError
+} from '../src/errors';
+import { toMcpError } from '../src/mcp-errors';
+
+const mapped = (error: unknown) => {
+  const result = toMcpError(error);
+  return { code: result.code, message: result.message.replace(/^MCP error -?\d+: /, '') };
+};
+
+describe('toMcpError', () => {
+  it('should report invalid input as invalid params', () => {
+    expect(mapped(new ValidationError('Invalid IP address format', { endpoint: 'lookup' })))
+      .toEqual({ code: ErrorCode.InvalidParams, message: 'Invalid IP address format' });
+  });
+
+  it('should not report a 404 from an IP lookup as a missing tag', () => {
+    expect(mapped(new NotFoundError('Guardian Intel API Error (404): Resource not found', { status: 404, endpoint: 'lookup' })))
+      .toEqual({ code: ErrorCode.InvalidParams, message: 'No threat intelligence found for this IP address' });
+    expect(mapped(new NotFoundError('Guardian Intel API Error (404): Tag not found', { status: 404, endpoint: 'tag_details' })))
+      .toEqual({ code: ErrorCode.InvalidParams, message: 'Tag not found' });
+  });
+
+  it('should describe upstream and connection failures', () => {
+    expect(mapped(new AuthenticationError('401', { status: 401 })).message).toBe('Guardian Intel API key is invalid or missing');
+    expect(mapped(new ForbiddenError('403', { status: 403 })).message)
+      .toBe('Guardian Intel API key is not permitted to access this resource');
+    expect(mapped(new UpstreamUnavailableError('503', { status: 503 })).message).toBe('Guardian Intel service temporarily unavailable');
+    expect(mapped(new RequestTimeoutError('timeout')).message).toBe('Request timeout - Guardian Intel API is not responding');
+    expect(mapped(new NetworkError('ECONNREFUSED')).message).toBe('Unable to connect to Guardian Intel API');
+    expect(mapped(new RequestAbortedError('aborted')).message).toBe('Guardian Intel request was cancelled');
+    expect(mapped(new MalformedResponseError('result.asn is not an object')).message)
+      .toBe('Unexpected response from Guardian Intel API: result.asn is not an object');
+    expect(mapped(new UpstreamUnavailableError('503')).code).toBe(ErrorCode.InternalError);
+  });
+
+  it('should include the retry hint of a rate limit', () => {
+    expect(mapped(new RateLimitError('429', { status: 429, retryAfterMs: 2500 })).message)
+      .toBe('Guardian Intel rate limit exceeded - retry after 3s');
+    expect(mapped(new RateLimitError('429', { status: 429 })).message).toBe('Guardian Intel rate limit exceeded');
+  });
+
+  it('should pass quota refusals and open circuits through with their own message', () => {
+    const quota = new QuotaThresholdError('Refusing bulk lookup', { remaining: 5, softLimit: 10 });
+    expect(mapped(quota)).toEqual({ code: ErrorCode.InvalidRequest, message: 'Refusing bulk lookup' });
+
+    const open = new CircuitOpenError('Guardian Intel circuit is open', { retryAfterMs: 1000 });
+    expect(mapped(open)).toEqual({ code: ErrorCode.InternalError, message: 'Guardian Intel circuit is open' });
+  });
+
+  it('should report anything else as a tool failure', () => {
+    expect(mapped(new Error('Some other error'))).toEqual({ code: ErrorCode.InternalError, message: 'Tool execution failed: Some other error' });
+    expect(mapped('String error').message).toBe('Tool execution failed: String error');
+    expect(mapped(new GuardianIntelError('odd')).message).toBe('Tool execution failed: odd');
+
+    const existing = new McpError(ErrorCode.MethodNotFound, 'Unknown tool');
+    expect(toMcpError(existing)).toBe(existing);
+  });
+});
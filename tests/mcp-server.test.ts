@@ -2,6 +2,13 @@ import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { GuardianIntelClient } from '../src/guardian-intel-client.js';
 import { GuardianIntelTools } from '../src/tools.js';
+import {
+  NetworkError,
+  NotFoundError,
+  RequestTimeoutError,
+  UpstreamUnavailableError,
+  ValidationError
+} from '../src/errors.js';
 import { suppressConsole, restoreConsole } from './setup.js';
 
 // Mock dependencies
@@ -57,7 +64,7 @@ describe('GuardianIntelMcpServer', () => {
     };
 
     // Dynamic import to get the fresh module after mocking
-    const module = await import('../src/index.js');
+    const module = await import('../src/server.js');
     GuardianIntelMcpServer = (module as any).GuardianIntelMcpServer;
   });
 
@@ -194,7 +201,7 @@ describe('GuardianIntelMcpServer', () => {
       });
 
       it('should handle invalid IP address error', async () => {
-        mockTools.executeTool.mockRejectedValue(new Error('Invalid IP address format'));
+        mockTools.executeTool.mockRejectedValue(new ValidationError('Invalid IP address format', { endpoint: 'lookup' }));
 
         const request = {
           params: {
@@ -211,7 +218,7 @@ describe('GuardianIntelMcpServer', () => {
       });
 
       it('should handle tag name required error', async () => {
-        mockTools.executeTool.mockRejectedValue(new Error('Tag name is required'));
+        mockTools.executeTool.mockRejectedValue(new ValidationError('Tag name is required', { endpoint: 'tag_details' }));
 
         const request = {
           params: {
@@ -228,7 +235,7 @@ describe('GuardianIntelMcpServer', () => {
       });
 
       it('should handle 404 tag not found error', async () => {
-        mockTools.executeTool.mockRejectedValue(new Error('Guardian Intel API Error (404): Tag not found'));
+        mockTools.executeTool.mockRejectedValue(new NotFoundError('Guardian Intel API Error (404): Tag not found', { status: 404, endpoint: 'tag_details' }));
 
         const request = {
           params: {
@@ -245,7 +252,7 @@ describe('GuardianIntelMcpServer', () => {
       });
 
       it('should handle 503 service unavailable error', async () => {
-        mockTools.executeTool.mockRejectedValue(new Error('Guardian Intel API Error (503): Service unavailable'));
+        mockTools.executeTool.mockRejectedValue(new UpstreamUnavailableError('Guardian Intel API Error (503): Service unavailable', { status: 503, endpoint: 'lookup' }));
 
         const request = {
           params: {
@@ -262,7 +269,7 @@ describe('GuardianIntelMcpServer', () => {
       });
 
       it('should handle timeout error', async () => {
-        mockTools.executeTool.mockRejectedValue(new Error('Request timeout'));
+        mockTools.executeTool.mockRejectedValue(new RequestTimeoutError('Guardian Intel API request timeout', { endpoint: 'lookup' }));
 
         const request = {
           params: {
@@ -279,7 +286,7 @@ describe('GuardianIntelMcpServer', () => {
       });
 
       it('should handle connection error', async () => {
-        mockTools.executeTool.mockRejectedValue(new Error('Unable to connect to Guardian Intel API'));
+        mockTools.executeTool.mockRejectedValue(new NetworkError('Unable to connect to Guardian Intel API', { endpoint: 'lookup' }));
 
         const request = {
           params: {
@@ -330,55 +337,4 @@ describe('GuardianIntelMcpServer', () => {
       });
     });
   });
-
-  describe('run method', () => {
-    let server: any;
-
-    beforeEach(() => {
-      server = new GuardianIntelMcpServer();
-    });
-
-    it('should perform health check and connect to transport', async () => {
-      mockClient.healthCheck.mockResolvedValue(true);
-      
-      // Mock StdioServerTransport
-      const mockTransport = {};
-      jest.doMock('@modelcontextprotocol/sdk/server/stdio.js', () => ({
-        StdioServerTransport: jest.fn().mockImplementation(() => mockTransport)
-      }));
-
-      await server.run();
-
-      expect(mockClient.healthCheck).toHaveBeenCalled();
-      expect(mockServer.connect).toHaveBeenCalledWith(mockTransport);
-    });
-
-    it('should handle health check failure gracefully', async () => {
-      mockClient.healthCheck.mockResolvedValue(false);
-      
-      const mockTransport = {};
-      jest.doMock('@modelcontextprotocol/sdk/server/stdio.js', () => ({
-        StdioServerTransport: jest.fn().mockImplementation(() => mockTransport)
-      }));
-
-      await server.run();
-
-      expect(mockClient.healthCheck).toHaveBeenCalled();
-      expect(mockServer.connect).toHaveBeenCalled();
-    });
-
-    it('should handle health check error gracefully', async () => {
-      mockClient.healthCheck.mockRejectedValue(new Error('Health check failed'));
-      
-      const mockTransport = {};
-      jest.doMock('@modelcontextprotocol/sdk/server/stdio.js', () => ({
-        StdioServerTransport: jest.fn().mockImplementation(() => mockTransport)
-      }));
-
-      await server.run();
-
-      expect(mockClient.healthCheck).toHaveBeenCalled();
-      expect(mockServer.connect).toHaveBeenCalled();
-    });
-  });
 });
\ No newline at end of file
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from '@jest/globals';
+import axios from 'axios';
+import { GuardianIntelClient } from '../src/guardian-intel-client';
+import { MockGuardianIntelServer, startMockServer } from '../src/mock-server';
+import {
+  AuthenticationError,
+  MalformedResponseError,
+  NotFoundError,
+  RateLimitError,
+  UpstreamUnavailableError
+} from '../src/errors';
+
+describe('MockGuardianIntelServer', () => {
+  let server: MockGuardianIntelServer;
+
+  const createClient = (overrides: Partial<ConstructorParameters<typeof GuardianIntelClient>[0]> = {}) =>
+    new GuardianIntelClient({
+      apiKey: 'test-api-key',
+      baseUrl: server.url,
+      cache: { enabled: false },
+      rateLimit: { enabled: false },
+      circuitBreaker: { enabled: false },
+      retry: { maxRetries: 0 },
+      ...overrides
+    });
+
+  beforeAll(async () => {
+    server = await startMockServer();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.clearFaults();
+    server.requests.length = 0;
+  });
+
+  describe('routes', () => {
+    it('should answer lookups from the seed dataset', async () => {
+      const result = await createClient().lookupIp('192.0.2.10');
+
+      expect(result.threat_level).toBe('malicious');
+      expect(result.tags).toEqual(['credentials:brute-force', 'tool:scanner']);
+      expect(result.asn?.countryCode).toBe('NL');
+    });
+
+    it('should derive lookups for addresses that only appear in tags', async () => {
+      const result = await createClient().lookupIp('198.18.0.7');
+
+      expect(result.tags).toEqual(['tool:scanner']);
+    });
+
+    it('should return 404 for unknown addresses and tags', async () => {
+      const client = createClient();
+
+      await expect(client.lookupIp('203.0.113.99')).rejects.toBeInstanceOf(NotFoundError);
+      await expect(client.getTagDetails('unknown:tag')).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should list tags with and without descriptions', async () => {
+      const client = createClient();
+
+      const names = await client.getTags(false);
+      const full = await client.getTags(true);
+
+      expect(names.tags).toEqual(['credentials:brute-force', 'tool:scanner', 'actor:mirai']);
+      expect(full.tag_details?.[0].description).toBe('Brute force credential attacks');
+    });
+
+    it('should page through tag IPs with real totals', async () => {
+      const collection = await createClient().fetchAllTagIps('tool:scanner', { pageSize: 1000 });
+
+      expect(collection.total).toBe(2502);
+      expect(collection.ips).toHaveLength(2502);
+      expect(collection.pages).toBe(3);
+      expect(collection.snapshot).toBe('mock-snapshot-1');
+    });
+
+    it('should reject requests without the configured API key', async () => {
+      const strict = new MockGuardianIntelServer({ apiKey: 'right-key' });
+      await strict.start();
+
+      try {
+        const client = new GuardianIntelClient({ apiKey: 'wrong-key', baseUrl: strict.url, rateLimit: { enabled: false } });
+        await expect(client.lookupIp('192.0.2.10')).rejects.toBeInstanceOf(AuthenticationError);
+      } finally {
+        await strict.stop();
+      }
+    });
+  });
+
+  describe('fault injection', () => {
+    it('should retry through a burst of 429 responses honouring Retry-After', async () => {
+      server.inject({ type: 'rate_limit', retryAfterSeconds: 0, times: 2 });
+
+      const result = await createClient({ retry: { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 1 } }).lookupIp('192.0.2.10');
+
+      expect(result.ip).toBe('192.0.2.10');
+      expect(server.requests.map(request => request.status)).toEqual([429, 429, 200]);
+    });
+
+    it('should surface rate limiting once retries are exhausted', async () => {
+      server.inject({ type: 'rate_limit', retryAfterSeconds: 7 });
+
+      const error = await createClient().lookupIp('192.0.2.10').catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.retryAfterMs).toBe(7000);
+    });
+
+    it('should only affect matching paths', async () => {
+      server.inject({ type: 'status', status: 503, path: '/tags' });
+      const client = createClient();
+
+      await expect(client.getTags()).rejects.toBeInstanceOf(UpstreamUnavailableError);
+      await expect(client.lookupIp('192.0.2.10')).resolves.toBeDefined();
+    });
+
+    it('should serve malformed bodies', async () => {
+      server.inject({ type: 'malformed', body: '{"result": {"item": 42}}' });
+
+      const error = await createClient().lookupIp('192.0.2.10').catch(e => e);
+
+      expect(error).toBeInstanceOf(MalformedResponseError);
+      expect(error.path).toBe('result.item');
+    });
+
+    it('should report unparseable bodies at the root', async () => {
+      server.inject({ type: 'malformed' });
+
+      await expect(createClient().getTags()).rejects.toThrow('Malformed response at root: expected object, got string');
+    });
+
+    it('should delay responses', async () => {
+      server.inject({ type: 'latency', delayMs: 150, times: 1 });
+
+      const started = Date.now();
+      await createClient().lookupIp('192.0.2.10');
+
+      expect(Date.now() - started).toBeGreaterThanOrEqual(140);
+    });
+
+    it('should accept faults over HTTP', async () => {
+      await axios.post(`${server.url}/__faults`, { type: 'status', status: 502, times: 1 });
+
+      expect(server.activeFaults).toEqual([{ type: 'status', status: 502, times: 1 }]);
+      await expect(createClient().lookupIp('192.0.2.10')).rejects.toBeInstanceOf(UpstreamUnavailableError);
+      expect(server.activeFaults).toEqual([]);
+
+      await axios.post(`${server.url}/__faults`, [{ type: 'latency', delayMs: 1 }]);
+      await axios.delete(`${server.url}/__faults`);
+      expect(server.activeFaults).toEqual([]);
+    });
+  });
+});
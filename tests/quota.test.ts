@@ -0,0 +1,145 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseReset, QuotaTracker } from '../src/quota';
+import { QuotaThresholdError } from '../src/errors';
+
+describe('parseReset', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z');
+
+  it('should treat small numbers as seconds until reset', () => {
+    expect(parseReset('60', now)).toBe(now + 60000);
+  });
+
+  it('should treat large numbers as Unix timestamps in seconds', () => {
+    expect(parseReset('1704067260', now)).toBe(Date.parse('2024-01-01T00:01:00Z'));
+  });
+
+  it('should accept HTTP dates', () => {
+    expect(parseReset('Mon, 01 Jan 2024 01:00:00 GMT', now)).toBe(Date.parse('2024-01-01T01:00:00Z'));
+  });
+
+  it('should ignore values it cannot parse', () => {
+    expect(parseReset('soon', now)).toBeUndefined();
+    expect(parseReset(undefined, now)).toBeUndefined();
+  });
+});
+
+describe('QuotaTracker', () => {
+  const createTracker = (softLimit?: number) => {
+    let now = Date.parse('2024-01-01T00:00:00Z');
+    const tracker = new QuotaTracker({ lowFraction: 0.1, softLimit }, () => now);
+    return {
+      tracker,
+      advance: (ms: number) => {
+        now += ms;
+      }
+    };
+  };
+
+  it('should report nothing before any headers were seen', () => {
+    expect(createTracker().tracker.getStatus()).toBeUndefined();
+  });
+
+  it('should read rate limit headers case-insensitively', () => {
+    const { tracker } = createTracker();
+
+    tracker.update({ 'X-RateLimit-Limit': '100', 'X-RateLimit-Remaining': '42', 'X-RateLimit-Reset': '30' });
+
+    expect(tracker.getStatus()).toEqual({
+      source: 'rate_limit',
+      limit: 100,
+      remaining: 42,
+      reset_at: '2024-01-01T00:00:30.000Z',
+      reset_in_seconds: 30,
+      low: false,
+      soft_limit: undefined,
+      observed_at: '2024-01-01T00:00:00.000Z'
+    });
+  });
+
+  it('should prefer the quota window over the rate limit window', () => {
+    const { tracker } = createTracker();
+
+    tracker.update({
+      'x-ratelimit-limit': '10',
+      'x-ratelimit-remaining': '9',
+      'x-quota-limit': '10000',
+      'x-quota-remaining': '500',
+      'x-quota-reset': '1704153600'
+    });
+
+    expect(tracker.getStatus()).toMatchObject({
+      source: 'quota',
+      limit: 10000,
+      remaining: 500,
+      reset_at: '2024-01-02T00:00:00.000Z',
+      low: true
+    });
+  });
+
+  it('should forget a window once it has reset', () => {
+    const { tracker, advance } = createTracker();
+    tracker.update({ 'x-quota-remaining': '0', 'x-quota-reset': '60', 'x-ratelimit-remaining': '5' });
+
+    expect(tracker.getStatus()).toMatchObject({ source: 'quota', remaining: 0, low: true });
+
+    advance(60000);
+
+    expect(tracker.getStatus()).toMatchObject({ source: 'rate_limit', remaining: 5 });
+  });
+
+  it('should count the quota as low at the soft limit', () => {
+    const { tracker } = createTracker(20);
+    tracker.update({ 'x-quota-limit': '1000', 'x-quota-remaining': '20' });
+
+    expect(tracker.getStatus()).toMatchObject({ low: true, soft_limit: 20 });
+  });
+
+  describe('assertAvailable', () => {
+    it('should allow everything without a soft limit', () => {
+      const { tracker } = createTracker();
+      tracker.update({ 'x-quota-remaining': '1' });
+
+      expect(() => tracker.assertAvailable('bulk lookup', 500)).not.toThrow();
+    });
+
+    it('should allow operations that stay at or above the soft limit', () => {
+      const { tracker } = createTracker(50);
+      tracker.update({ 'x-quota-remaining': '100' });
+
+      expect(() => tracker.assertAvailable('bulk lookup', 50)).not.toThrow();
+    });
+
+    it('should refuse operations that would drop below the soft limit', () => {
+      const { tracker } = createTracker(50);
+      tracker.update({ 'x-quota-remaining': '100', 'x-quota-reset': '120' });
+
+      let error: unknown;
+      try {
+        tracker.assertAvailable('bulk lookup', 51);
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(QuotaThresholdError);
+      expect(error).toMatchObject({ remaining: 100, softLimit: 50 });
+      expect((error as Error).message).toBe(
+        'Refusing bulk lookup: it needs up to 51 request(s) and only 100 remain against a soft limit of 50, ' +
+        'resets in 120s. Pass force: true to run it anyway.'
+      );
+    });
+
+    it('should leave the rate limit window to the rate limiter', () => {
+      const { tracker } = createTracker(50);
+      tracker.update({ 'x-ratelimit-limit': '100', 'x-ratelimit-remaining': '20', 'x-ratelimit-reset': '1' });
+
+      expect(() => tracker.assertAvailable('bulk lookup', 500)).not.toThrow();
+      expect(tracker.getStatus()).toMatchObject({ source: 'rate_limit', remaining: 20, low: false });
+    });
+
+    it('should allow operations while the quota is unknown', () => {
+      const { tracker } = createTracker(50);
+
+      expect(() => tracker.assertAvailable('export', 1000)).not.toThrow();
+    });
+  });
+});
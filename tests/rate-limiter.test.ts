@@ -0,0 +1,95 @@
+import { describe, it, expect } from '@jest/globals';
+import { getSharedRateLimiter, RateLimiter } from '../src/rate-limiter';
+
+describe('RateLimiter', () => {
+  const deferred = () => {
+    let resolve!: () => void;
+    const promise = new Promise<void>(r => {
+      resolve = r;
+    });
+    return { promise, resolve };
+  };
+
+  it('should cap the number of concurrent tasks and queue the rest', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1000, burst: 10, maxConcurrent: 2 });
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const runs = gates.map((gate, index) => limiter.schedule(async () => {
+      started.push(index);
+      await gate.promise;
+      return index;
+    }));
+
+    await Promise.resolve();
+    expect(started).toEqual([0, 1]);
+    expect(limiter.activeCount).toBe(2);
+    expect(limiter.queueDepth).toBe(1);
+
+    gates[0].resolve();
+    await runs[0];
+    await Promise.resolve();
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[1].resolve();
+    gates[2].resolve();
+    await expect(Promise.all(runs)).resolves.toEqual([0, 1, 2]);
+    expect(limiter.activeCount).toBe(0);
+  });
+
+  it('should delay tasks once the token bucket is empty', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 20, burst: 1, maxConcurrent: 5 });
+    const startedAt = Date.now();
+
+    await Promise.all([
+      limiter.schedule(async () => undefined),
+      limiter.schedule(async () => undefined)
+    ]);
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(40);
+  });
+
+  it('should release the slot when a task fails', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1000, burst: 10, maxConcurrent: 1 });
+
+    await expect(limiter.schedule(async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+    await expect(limiter.schedule(async () => 'ok')).resolves.toBe('ok');
+  });
+
+  it('should drop a queued task when its signal is aborted', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1000, burst: 10, maxConcurrent: 1 });
+    const gate = deferred();
+    const controller = new AbortController();
+    let ran = false;
+
+    const first = limiter.schedule(() => gate.promise);
+    const second = limiter.schedule(async () => {
+      ran = true;
+    }, controller.signal);
+
+    expect(limiter.queueDepth).toBe(1);
+    controller.abort(new Error('cancelled'));
+
+    await expect(second).rejects.toThrow('cancelled');
+    expect(limiter.queueDepth).toBe(0);
+
+    gate.resolve();
+    await first;
+    expect(ran).toBe(false);
+    expect(limiter.activeCount).toBe(0);
+  });
+
+  it('should reject invalid policies', () => {
+    expect(() => new RateLimiter({ requestsPerSecond: 0, burst: 1, maxConcurrent: 1 }))
+      .toThrow('Rate limit values must be positive');
+  });
+
+  it('should share limiters between clients using the same API key', () => {
+    const policy = { requestsPerSecond: 5, burst: 5, maxConcurrent: 1 };
+
+    expect(getSharedRateLimiter('key-a', policy)).toBe(getSharedRateLimiter('key-a', policy));
+    expect(getSharedRateLimiter('key-a', policy)).not.toBe(getSharedRateLimiter('key-b', policy));
+  });
+});
@@ -0,0 +1,120 @@
+import { jest, describe, it, expect } from '@jest/globals';
+import {
+  computeBackoff,
+  isRetryableError,
+  parseRetryAfter,
+  RetryPolicy,
+  sleep,
+  withRetry
+} from '../src/retry';
+
+describe('retry', () => {
+  const policy: RetryPolicy = {
+    maxRetries: 3,
+    baseDelayMs: 100,
+    maxDelayMs: 1000,
+    totalBudgetMs: 10000
+  };
+
+  describe('parseRetryAfter', () => {
+    it('should parse delay seconds', () => {
+      expect(parseRetryAfter('2')).toBe(2000);
+      expect(parseRetryAfter(1.5)).toBe(1500);
+    });
+
+    it('should parse HTTP dates relative to now', () => {
+      const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+      expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:05 GMT', now)).toBe(5000);
+    });
+
+    it('should ignore missing or invalid values', () => {
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry rate limits, gateway errors and connection resets', () => {
+      expect(isRetryableError({ response: { status: 429 } })).toBe(true);
+      expect(isRetryableError({ response: { status: 502 } })).toBe(true);
+      expect(isRetryableError({ response: { status: 503 } })).toBe(true);
+      expect(isRetryableError({ response: { status: 504 } })).toBe(true);
+      expect(isRetryableError({ code: 'ECONNRESET' })).toBe(true);
+    });
+
+    it('should not retry other failures', () => {
+      expect(isRetryableError({ response: { status: 500 } })).toBe(false);
+      expect(isRetryableError({ response: { status: 404 } })).toBe(false);
+      expect(isRetryableError({ code: 'ECONNABORTED' })).toBe(false);
+      expect(isRetryableError(new Error('boom'))).toBe(false);
+    });
+  });
+
+  describe('computeBackoff', () => {
+    it('should grow exponentially up to the maximum delay', () => {
+      expect(computeBackoff(1, policy, () => 0.999)).toBe(99);
+      expect(computeBackoff(3, policy, () => 0.999)).toBe(399);
+      expect(computeBackoff(10, policy, () => 0.999)).toBe(999);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should honor Retry-After over the computed backoff', async () => {
+      const wait = jest.fn(async (_ms: number) => undefined);
+      const operation = jest.fn<(attempt: number) => Promise<string>>()
+        .mockRejectedValueOnce({ response: { status: 429, headers: { 'retry-after': '3' } } })
+        .mockResolvedValueOnce('ok');
+
+      await expect(withRetry(operation, policy, wait)).resolves.toBe('ok');
+      expect(wait).toHaveBeenCalledWith(3000, undefined);
+    });
+
+    it('should stop after the maximum number of retries', async () => {
+      const wait = jest.fn(async (_ms: number) => undefined);
+      const failure = { response: { status: 503 } };
+      const operation = jest.fn<(attempt: number) => Promise<string>>().mockRejectedValue(failure);
+
+      await expect(withRetry(operation, policy, wait)).rejects.toBe(failure);
+      expect(operation).toHaveBeenCalledTimes(4);
+      expect(wait).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry once the signal is aborted', async () => {
+      const controller = new AbortController();
+      const wait = jest.fn(async (_ms: number) => undefined);
+      const failure = { response: { status: 503 } };
+      const operation = jest.fn(async () => {
+        controller.abort();
+        throw failure;
+      });
+
+      await expect(withRetry(operation, policy, wait, controller.signal)).rejects.toBe(failure);
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(wait).not.toHaveBeenCalled();
+    });
+
+    it('should cut a backoff wait short when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const operation = jest.fn<(attempt: number) => Promise<string>>()
+        .mockRejectedValue({ response: { status: 429, headers: { 'retry-after': '30' } } });
+      const startedAt = Date.now();
+
+      const run = withRetry(operation, { ...policy, totalBudgetMs: 60000 }, sleep, controller.signal);
+      setTimeout(() => controller.abort(new Error('cancelled')), 10);
+
+      await expect(run).rejects.toThrow('cancelled');
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+    });
+
+    it('should give up when the wait would exceed the time budget', async () => {
+      const wait = jest.fn(async (_ms: number) => undefined);
+      const failure = { response: { status: 503, headers: { 'retry-after': '60' } } };
+      const operation = jest.fn<(attempt: number) => Promise<string>>().mockRejectedValue(failure);
+
+      await expect(withRetry(operation, policy, wait)).rejects.toBe(failure);
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(wait).not.toHaveBeenCalled();
+    });
+  });
+});
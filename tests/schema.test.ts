@@ -0,0 +1,97 @@
+import { describe, it, expect } from '@jest/globals';
+import { array, number, object, optional, parseResponse, record, SchemaViolation, string, unknown } from '../src/schema';
+import { lookupSchema, tagIpsSchema, tagsSchema } from '../src/api-schemas';
+import { MalformedResponseError } from '../src/errors';
+
+describe('schema', () => {
+  const asn = object({ asn: string(), name: string(), countryCode: string() });
+  const lookup = object({ item: string(), tags: optional(array(string())), asn: optional(asn) });
+
+  it('should accept values matching the shape', () => {
+    expect(lookup({ item: '1.2.3.4', tags: ['malware'] }, '')).toEqual({ item: '1.2.3.4', tags: ['malware'] });
+  });
+
+  it('should report the dotted path of a wrong type', () => {
+    const run = () => lookup({ item: '1.2.3.4', asn: { asn: '1', name: 'x', countryCode: 42 } }, 'result');
+
+    expect(run).toThrow(SchemaViolation);
+    expect(run).toThrow('expected string at result.asn.countryCode, got number');
+  });
+
+  it('should index into arrays in the path', () => {
+    expect(() => lookup({ item: '1.2.3.4', tags: ['ok', null] }, 'result')).toThrow(
+      'expected string at result.tags[1], got null'
+    );
+    expect(() => lookup({ item: '1.2.3.4', tags: 'malware' }, 'result')).toThrow(
+      'expected array at result.tags, got string'
+    );
+  });
+
+  it('should treat null as a missing optional field', () => {
+    expect(lookup({ item: '1.2.3.4', asn: null }, '')).toEqual({ item: '1.2.3.4' });
+  });
+
+  it('should require non-optional fields', () => {
+    expect(() => lookup({}, 'result')).toThrow('expected string at result.item, got undefined');
+  });
+
+  it('should keep unknown fields under extra at every level', () => {
+    const result = lookup({
+      item: '1.2.3.4',
+      riskScore: 87,
+      asn: { asn: '1', name: 'x', countryCode: 'US', registry: 'arin' }
+    }, '');
+
+    expect(result.extra).toEqual({ riskScore: 87 });
+    expect(result.asn?.extra).toEqual({ registry: 'arin' });
+  });
+
+  it('should drop unknown fields when keepExtra is false', () => {
+    const envelope = object({ result: string() }, { keepExtra: false });
+    expect(envelope({ result: 'ok', status: 'success' }, '')).toEqual({ result: 'ok' });
+  });
+
+  it('should not mistake prototype properties for declared fields', () => {
+    const result = object({ name: string() })({ name: 'tag', constructor: 'value' }, '');
+    expect(result.extra).toEqual({ constructor: 'value' });
+  });
+
+  it('should reject non-finite numbers', () => {
+    expect(() => number()(NaN, 'total')).toThrow('expected number at total, got number');
+  });
+
+  it('should validate record values', () => {
+    expect(record(unknown())({ a: 1 }, '')).toEqual({ a: 1 });
+    expect(() => record(string())({ a: 1 }, 'activity')).toThrow('expected string at activity.a, got number');
+    expect(() => record(string())([], 'activity')).toThrow('expected object at activity, got array');
+  });
+});
+
+describe('parseResponse', () => {
+  it('should convert violations into MalformedResponseError', () => {
+    const error = (() => {
+      try {
+        return parseResponse(lookupSchema, { result: { item: '1.2.3.4', asn: { asn: '1', name: 'x', countryCode: 1 } } }, 'lookup');
+      } catch (e) {
+        return e;
+      }
+    })() as MalformedResponseError;
+
+    expect(error).toBeInstanceOf(MalformedResponseError);
+    expect(error.message).toBe('Malformed response at result.asn.countryCode: expected string, got number');
+    expect(error.path).toBe('result.asn.countryCode');
+    expect(error.endpoint).toBe('lookup');
+  });
+
+  it('should name the root when the payload itself is wrong', () => {
+    expect(() => parseResponse(tagsSchema, 'oops', 'tags')).toThrow(
+      'Malformed response at root: expected object, got string'
+    );
+  });
+
+  it('should require the result envelope', () => {
+    expect(() => parseResponse(tagIpsSchema, { unexpected: true }, 'tag_ips')).toThrow(
+      'Malformed response at result: expected object, got undefined'
+    );
+  });
+});
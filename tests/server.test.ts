@@ -0,0 +1,123 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { RequestAbortedError } from '../src/errors';
+import { GuardianIntelClient } from '../src/guardian-intel-client';
+import { GuardianIntelMcpServer } from '../src/server';
+import { suppressConsole, restoreConsole } from './setup';
+
+jest.mock('../src/guardian-intel-client');
+const MockedGuardianIntelClient = GuardianIntelClient as jest.MockedClass<typeof GuardianIntelClient>;
+
+describe('GuardianIntelMcpServer', () => {
+  let originalEnv: NodeJS.ProcessEnv;
+  let server: GuardianIntelMcpServer;
+  let mockClient: jest.Mocked<GuardianIntelClient>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    suppressConsole();
+    originalEnv = process.env;
+    process.env = { ...originalEnv, ABUSIX_API_KEY: 'test-api-key' };
+
+    server = new GuardianIntelMcpServer();
+    mockClient = MockedGuardianIntelClient.mock.instances[0] as jest.Mocked<GuardianIntelClient>;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    restoreConsole();
+  });
+
+  const connect = async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.run(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+    return client;
+  };
+
+  describe('startup', () => {
+    it('should check the connection with a single cheap request', async () => {
+      mockClient.healthCheck.mockResolvedValue(true);
+
+      await expect(server.checkConnection()).resolves.toBe(true);
+
+      expect(mockClient.healthCheck).toHaveBeenCalledTimes(1);
+      expect(mockClient.diagnose).not.toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith('✓ Connected to Guardian Intel API successfully');
+    });
+
+    it('should point at the status tool when the connection fails', async () => {
+      mockClient.healthCheck.mockResolvedValue(false);
+      await expect(server.checkConnection()).resolves.toBe(false);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('guardian_intel_status'));
+
+      mockClient.healthCheck.mockRejectedValue(new Error('boom'));
+      await expect(server.checkConnection()).resolves.toBe(false);
+      expect(console.error).toHaveBeenCalledWith('Warning: Guardian Intel API health check failed:', 'boom');
+      expect(mockClient.diagnose).not.toHaveBeenCalled();
+    });
+
+    it('should serve tools over the given transport even when the check fails', async () => {
+      mockClient.healthCheck.mockResolvedValue(false);
+
+      const client = await connect();
+      const { tools } = await client.listTools();
+
+      expect(tools.map(tool => tool.name)).toContain('guardian_intel_lookup');
+      await client.close();
+    });
+
+    it('should refuse to start without an API key', () => {
+      delete process.env.ABUSIX_API_KEY;
+
+      expect(() => new GuardianIntelMcpServer()).toThrow('ABUSIX_API_KEY environment variable is required');
+    });
+  });
+
+  describe('tool calls', () => {
+    const waitFor = async (condition: () => boolean) => {
+      for (let i = 0; i < 100 && !condition(); i++) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      expect(condition()).toBe(true);
+    };
+
+    it('should return tool results as JSON text', async () => {
+      mockClient.healthCheck.mockResolvedValue(true);
+      mockClient.lookupIp.mockResolvedValue({ ip: '45.33.32.156', tags: [], threat_level: 'unknown' } as any);
+
+      const client = await connect();
+      const result = await client.callTool({ name: 'guardian_intel_lookup', arguments: { ip: '45.33.32.156' } });
+
+      expect(JSON.parse((result.content as Array<{ text: string }>)[0].text)).toMatchObject({ ip: '45.33.32.156' });
+      await client.close();
+    });
+
+    it('should abort the API requests of a cancelled tool call', async () => {
+      mockClient.healthCheck.mockResolvedValue(true);
+      let apiSignal: AbortSignal | undefined;
+      mockClient.lookupIp.mockImplementation((_ip, options) => new Promise((_resolve, reject) => {
+        apiSignal = options?.signal;
+        apiSignal?.addEventListener('abort', () => reject(new RequestAbortedError('Guardian Intel API request was cancelled')));
+      }));
+
+      const client = await connect();
+      const controller = new AbortController();
+      const call = client.callTool(
+        { name: 'guardian_intel_lookup', arguments: { ip: '45.33.32.156' } },
+        undefined,
+        { signal: controller.signal }
+      );
+
+      await waitFor(() => apiSignal !== undefined);
+      expect(apiSignal!.aborted).toBe(false);
+
+      controller.abort();
+      await expect(call).rejects.toThrow();
+      await waitFor(() => apiSignal!.aborted);
+      await client.close();
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from '@jest/globals';
+import { editDistance, searchTags } from '../src/tag-search';
+import { TagSummary } from '../src/types';
+
+const TAGS: TagSummary[] = [
+  { name: 'credentials:brute-force', intent: 'malicious', category: 'activity', description: 'Attempts to guess passwords over SSH, RDP and other login services' },
+  { name: 'scanner:shodan', intent: 'unknown', category: 'actor', description: 'Internet-wide scanning by Shodan' },
+  { name: 'scanner:censys', intent: 'unknown', category: 'actor', description: 'Internet-wide scanning by Censys' },
+  { name: 'botnet:mirai', intent: 'malicious', category: 'tool', description: 'Mirai botnet nodes spreading via telnet brute forcing' },
+  { name: 'anonymizer:tor-exit', intent: 'suspicious', category: 'tool' }
+];
+
+const names = (query: string) => searchTags(TAGS, query).map(match => match.tag.name);
+
+describe('tag-search', () => {
+  describe('editDistance', () => {
+    it('should count insertions, deletions and substitutions', () => {
+      expect(editDistance('brute', 'brute', 1)).toBe(0);
+      expect(editDistance('brute', 'brte', 1)).toBe(1);
+      expect(editDistance('scanner', 'scaner', 2)).toBe(1);
+      expect(editDistance('kitten', 'sitting', 3)).toBe(3);
+    });
+
+    it('should stop once the distance exceeds the bound', () => {
+      expect(editDistance('brute', 'shodan', 1)).toBe(2);
+      expect(editDistance('a', 'abcdef', 2)).toBe(3);
+    });
+  });
+
+  describe('searchTags', () => {
+    it('should rank exact names above namespace and description matches', () => {
+      const results = searchTags(TAGS, 'credentials:brute-force');
+
+      expect(results[0]).toMatchObject({
+        tag: { name: 'credentials:brute-force' },
+        score: 100,
+        matched_fields: ['name'],
+        highlights: { name: '**credentials:brute-force**' }
+      });
+    });
+
+    it('should match every tag under a namespace prefix', () => {
+      expect(names('scanner:')).toEqual(['scanner:censys', 'scanner:shodan']);
+      expect(searchTags(TAGS, 'scanner')[0].highlights).toEqual({ name: '**scanner**:censys' });
+    });
+
+    it('should require every term to match and add up their scores', () => {
+      const results = searchTags(TAGS, 'brute malicious');
+
+      expect(results.map(match => [match.tag.name, match.score])).toEqual([
+        ['credentials:brute-force', 80],
+        ['botnet:mirai', 50]
+      ]);
+      expect(results[1].matched_fields).toEqual(['intent', 'description']);
+      expect(results[1].highlights).toEqual({
+        intent: '**malicious**',
+        description: 'Mirai botnet nodes spreading via telnet **brute** forcing'
+      });
+    });
+
+    it('should tolerate small typos in name segments', () => {
+      expect(names('shodn')).toEqual(['scanner:shodan']);
+      expect(names('anonimyzer')).toEqual(['anonymizer:tor-exit']);
+      expect(names('tro')).toEqual([]);
+    });
+
+    it('should match intent and category labels exactly', () => {
+      expect(names('suspicious')).toEqual(['anonymizer:tor-exit']);
+      expect(names('TOOL')).toEqual(['anonymizer:tor-exit', 'botnet:mirai']);
+    });
+
+    it('should return nothing for a blank query', () => {
+      expect(searchTags(TAGS, '   ')).toEqual([]);
+    });
+  });
+});
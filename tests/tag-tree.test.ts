@@ -0,0 +1,77 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildTagTree } from '../src/tag-tree';
+import { TagSummary } from '../src/types';
+
+const TAGS: TagSummary[] = [
+  { name: 'credentials:brute-force', intent: 'malicious' },
+  { name: 'credentials:stuffing', intent: 'malicious' },
+  { name: 'scanner:shodan', intent: 'unknown' },
+  { name: 'scanner:censys', intent: 'unknown' },
+  { name: 'scanner:web:nuclei', intent: 'suspicious' },
+  { name: 'scanner' },
+  { name: 'tor-exit', intent: 'suspicious' }
+];
+
+const shape = (node: { path: string; count: number; children: unknown[] }): unknown => ({
+  path: node.path,
+  count: node.count,
+  children: (node.children as Array<{ path: string; count: number; children: unknown[] }>).map(shape)
+});
+
+describe('buildTagTree', () => {
+  it('should nest tags by namespace with counts, largest branches first', () => {
+    const tree = buildTagTree(TAGS)!;
+
+    expect(shape(tree)).toEqual({
+      path: '',
+      count: 7,
+      children: [
+        {
+          path: 'scanner',
+          count: 4,
+          children: [
+            { path: 'scanner:censys', count: 1, children: [] },
+            { path: 'scanner:shodan', count: 1, children: [] },
+            { path: 'scanner:web', count: 1, children: [{ path: 'scanner:web:nuclei', count: 1, children: [] }] }
+          ]
+        },
+        {
+          path: 'credentials',
+          count: 2,
+          children: [
+            { path: 'credentials:brute-force', count: 1, children: [] },
+            { path: 'credentials:stuffing', count: 1, children: [] }
+          ]
+        },
+        { path: 'tor-exit', count: 1, children: [] }
+      ]
+    });
+  });
+
+  it('should break down intents per branch and mark namespaces that are tags themselves', () => {
+    const tree = buildTagTree(TAGS)!;
+    const scanner = tree.children[0];
+
+    expect(tree.intents).toEqual({ malicious: 2, unknown: 3, suspicious: 2 });
+    expect(scanner.intents).toEqual({ unknown: 3, suspicious: 1 });
+    expect(scanner.is_tag).toBe(true);
+    expect(scanner.children[2].is_tag).toBe(false);
+    expect(scanner.children[2].children[0].is_tag).toBe(true);
+  });
+
+  it('should start from a namespace, with or without the trailing separator', () => {
+    expect(buildTagTree(TAGS, { root: 'scanner:' })).toMatchObject({ path: 'scanner', count: 4 });
+    expect(buildTagTree(TAGS, { root: 'scanner:web' })).toMatchObject({ path: 'scanner:web', count: 1 });
+    expect(buildTagTree(TAGS, { root: 'botnet' })).toBeUndefined();
+  });
+
+  it('should collapse branches below the depth limit', () => {
+    const tree = buildTagTree(TAGS, { depth: 1 })!;
+
+    expect(tree.children.map(child => [child.path, child.children.length, child.collapsed])).toEqual([
+      ['scanner', 0, 3],
+      ['credentials', 0, 2],
+      ['tor-exit', 0, undefined]
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from '@jest/globals';
+import { extractIps, refang } from '../src/text-scan';
+
+describe('text-scan', () => {
+  describe('refang', () => {
+    it('should undo common defanging conventions', () => {
+      expect(refang('hxxps://1.2.3[.]4/x and 5[dot]6(.)7{.}8 and 9\\.9.9.9')).toBe('https://1.2.3.4/x and 5.6.7.8 and 9.9.9.9');
+      expect(refang('2001:db8[:]:1 fxp://host')).toBe('2001:db8::1 ftp://host');
+    });
+
+    it('should leave ordinary text alone', () => {
+      expect(refang('sshd[123]: connection (closed)')).toBe('sshd[123]: connection (closed)');
+    });
+  });
+
+  describe('extractIps', () => {
+    const text = [
+      'Jan 10 12:34:56 host sshd[123]: Failed password from 45.33.32.156 port 22',
+      'alert: hxxp://185.220.101[.]1/payload.sh and 10.0.0.1, also 45.33.32.156.',
+      'addr:2001:4860:4860::8888 connected; [2606:4700:4700::1111]:443 ok',
+      'mac 00:1a:2b:3c:4d:5e version 1.2.3 mapped ::ffff:45.33.32.156',
+      'docs 2001:db8::1 and 192.0.2.1, link-local fe80::1%eth0'
+    ].join('\n');
+
+    it('should find defanged and IPv6 addresses with their line numbers', () => {
+      const found = extractIps(text);
+
+      expect(found.map(entry => [entry.ip, entry.lines])).toEqual([
+        ['45.33.32.156', [1, 2, 4]],
+        ['185.220.101.1', [2]],
+        ['10.0.0.1', [2]],
+        ['2001:4860:4860::8888', [3]],
+        ['2606:4700:4700::1111', [3]],
+        ['2001:db8::1', [5]],
+        ['192.0.2.1', [5]],
+        ['fe80::1', [5]]
+      ]);
+    });
+
+    it('should mark private, documentation and link-local addresses', () => {
+      const ranges = Object.fromEntries(extractIps(text).map(entry => [entry.ip, entry.range?.kind]));
+
+      expect(ranges).toEqual({
+        '45.33.32.156': undefined,
+        '185.220.101.1': undefined,
+        '10.0.0.1': 'private',
+        '2001:4860:4860::8888': undefined,
+        '2606:4700:4700::1111': undefined,
+        '2001:db8::1': 'documentation',
+        '192.0.2.1': 'documentation',
+        'fe80::1': 'link_local'
+      });
+    });
+
+    it('should ignore timestamps, MAC addresses, version numbers and out-of-range octets', () => {
+      expect(extractIps('at 10:15:30 mac 00:1a:2b:3c:4d:5e v1.2.3 build 1.2.3.4.5 bad 300.1.1.1')).toEqual([]);
+    });
+
+    it('should ignore scope operators in code and stack traces', () => {
+      expect(extractIps([
+        'at Illuminate\\Database::connect() in Connection.php:42',
+        'std::vector<int> v; Cache::get(key); Foo::Bar::baz',
+        'e:: and ::d in prose'
+      ].join('\n'))).toEqual([]);
+    });
+
+    it('should keep the unspecified, loopback and mapped short forms', () => {
+      expect(extractIps('bind :: and ::1, peer ::ffff:45.33.32.156').map(entry => entry.ip))
+        .toEqual(['::', '::1', '45.33.32.156']);
+    });
+
+    it('should handle Windows line endings', () => {
+      expect(extractIps('first\r\nsecond 8.8.8.8\r\n')[0].lines).toEqual([2]);
+    });
+  });
+});
@@ -1,6 +1,8 @@
 import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
 import { GuardianIntelTools } from '../src/tools';
 import { GuardianIntelClient } from '../src/guardian-intel-client';
+import { NotFoundError, QuotaThresholdError, RequestAbortedError, ValidationError } from '../src/errors';
+import { TagIpsResponse } from '../src/types';
 
 // Mock the GuardianIntelClient
 jest.mock('../src/guardian-intel-client');
@@ -25,15 +27,26 @@ describe('GuardianIntelTools', () => {
   });
 
   describe('getToolDefinitions', () => {
-    it('should return all 4 tool definitions', () => {
+    it('should return all 15 tool definitions', () => {
       const definitions = tools.getToolDefinitions();
       
-      expect(definitions).toHaveLength(4);
+      expect(definitions).toHaveLength(15);
       expect(definitions.map(t => t.name)).toEqual([
         'guardian_intel_lookup',
+        'guardian_intel_bulk_lookup',
+        'guardian_intel_cidr_lookup',
+        'guardian_intel_scan_text',
+        'guardian_intel_email_headers',
         'guardian_intel_tags_list',
+        'guardian_intel_tag_tree',
+        'guardian_intel_tag_search',
         'guardian_intel_tag_details',
-        'guardian_intel_tag_ips'
+        'guardian_intel_tag_ips',
+        'guardian_intel_tag_membership',
+        'guardian_intel_tag_set_ops',
+        'guardian_intel_export_blocklist',
+        'guardian_intel_status',
+        'guardian_intel_quota'
       ]);
     });
 
@@ -109,7 +122,7 @@ describe('GuardianIntelTools', () => {
 
         const result = await tools.executeTool('guardian_intel_lookup', { ip: '1.2.3.4' });
 
-        expect(mockClient.lookupIp).toHaveBeenCalledWith('1.2.3.4');
+        expect(mockClient.lookupIp).toHaveBeenCalledWith('1.2.3.4', { fresh: undefined });
         expect(result).toEqual({
           ip: '1.2.3.4',
           tags: ['malware', 'botnet'],
@@ -170,6 +183,284 @@ describe('GuardianIntelTools', () => {
 
         expect(result.asn).toBeNull();
       });
+
+      it('should pass fresh flag and report cache status', async () => {
+        mockClient.lookupIp.mockResolvedValue({
+          ...mockLookupResponse,
+          cache: { hit: true, age_seconds: 42 }
+        } as any);
+
+        const result = await tools.executeTool('guardian_intel_lookup', { ip: '1.2.3.4', fresh: true });
+
+        expect(mockClient.lookupIp).toHaveBeenCalledWith('1.2.3.4', { fresh: true });
+        expect(result.cache).toEqual({ hit: true, age_seconds: 42 });
+      });
+
+      it('should tell the model when the request was queued', async () => {
+        mockClient.getQueueDepth.mockReturnValue(3);
+        mockClient.lookupIp.mockResolvedValue(mockLookupResponse as any);
+
+        const result = await tools.executeTool('guardian_intel_lookup', { ip: '1.2.3.4' });
+
+        expect(result.queue).toEqual({
+          ahead: 3,
+          message: 'Queued behind 3 pending request(s) to stay within the API rate limit'
+        });
+      });
+    });
+
+    describe('guardian_intel_bulk_lookup', () => {
+      it('should return per-IP results, errors and an aggregate summary', async () => {
+        mockClient.lookupIps.mockResolvedValue({
+          results: [
+            {
+              ip: '1.2.3.4',
+              tags: ['credentials:brute-force', 'tool:scanner'],
+              threat_level: 'malicious',
+              confidence: 'high',
+              asn: { asn: '64500', name: 'Example Net', countryCode: 'US' }
+            },
+            {
+              ip: '5.6.7.8',
+              tags: ['tool:scanner'],
+              threat_level: 'suspicious',
+              confidence: 'medium',
+              asn: { asn: '64500', name: 'Example Net', countryCode: 'US' }
+            }
+          ],
+          errors: [{ ip: 'bogus', error: 'Invalid IP address format', type: 'ValidationError' }],
+          requested: 4,
+          unique: 2
+        });
+
+        const result = await tools.executeTool('guardian_intel_bulk_lookup', {
+          ips: ['1.2.3.4', '5.6.7.8', '1.2.3.4', 'bogus'],
+          concurrency: 2
+        });
+
+        expect(mockClient.lookupIps).toHaveBeenCalledWith(['1.2.3.4', '5.6.7.8', '1.2.3.4', 'bogus'], {
+          concurrency: 2,
+          fresh: undefined,
+          force: undefined,
+          signal: undefined
+        });
+        expect(result.succeeded).toBe(2);
+        expect(result.failed).toBe(1);
+        expect(result.aggregate).toEqual({
+          by_threat_level: { malicious: 1, suspicious: 1 },
+          top_tags: [
+            { tag: 'tool:scanner', count: 2 },
+            { tag: 'credentials:brute-force', count: 1 }
+          ],
+          top_asns: [{ asn: '64500', name: 'Example Net', count: 2 }]
+        });
+        expect(result.summary).toBe('Looked up 2 IP address(es): 1 malicious, 1 suspicious. 1 address(es) could not be looked up');
+      });
+
+      it('should reject an empty list', async () => {
+        await expect(tools.executeTool('guardian_intel_bulk_lookup', { ips: [] }))
+          .rejects.toThrow('ips must be a non-empty array of IP addresses');
+        expect(mockClient.lookupIps).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('guardian_intel_cidr_lookup', () => {
+      it('should return only the hits, a rollup and the number of addresses without intel', async () => {
+        mockClient.lookupIps.mockResolvedValue({
+          results: [
+            {
+              ip: '192.0.2.1',
+              tags: ['credentials:brute-force', 'tool:scanner'],
+              threat_level: 'malicious',
+              first_seen: '2024-01-03T00:00:00Z',
+              last_seen: '2024-02-01T00:00:00Z'
+            },
+            {
+              ip: '192.0.2.2',
+              tags: ['tool:scanner'],
+              threat_level: 'suspicious',
+              first_seen: '2023-12-24T00:00:00Z',
+              last_seen: '2024-01-10T00:00:00Z'
+            },
+            { ip: '192.0.2.3', tags: [], threat_level: 'unknown' }
+          ],
+          errors: [
+            { ip: '192.0.2.4', error: 'Resource not found', type: 'NotFoundError', status: 404 },
+            { ip: '192.0.2.5', error: 'Resource not found', type: 'NotFoundError', status: 404 },
+            { ip: '192.0.2.6', error: 'Service temporarily unavailable', type: 'UpstreamUnavailableError', status: 503 }
+          ],
+          requested: 6,
+          unique: 6
+        });
+
+        const result = await tools.executeTool('guardian_intel_cidr_lookup', { cidr: '192.0.2.7/29' });
+
+        expect(mockClient.lookupIps).toHaveBeenCalledWith(
+          ['192.0.2.1', '192.0.2.2', '192.0.2.3', '192.0.2.4', '192.0.2.5', '192.0.2.6'],
+          { concurrency: undefined, fresh: undefined, force: undefined, signal: undefined }
+        );
+        expect(result.cidr).toBe('192.0.2.0/29');
+        expect((result.hits as any[]).map(hit => hit.ip)).toEqual(['192.0.2.1', '192.0.2.2']);
+        expect(result.no_intel).toBe(3);
+        expect(result.errors).toEqual([
+          { ip: '192.0.2.6', error: 'Service temporarily unavailable', type: 'UpstreamUnavailableError', status: 503 }
+        ]);
+        expect(result.rollup).toEqual({
+          malicious: 1,
+          suspicious: 1,
+          tags: [
+            { tag: 'tool:scanner', count: 2 },
+            { tag: 'credentials:brute-force', count: 1 }
+          ],
+          first_seen: '2023-12-24T00:00:00Z',
+          last_seen: '2024-02-01T00:00:00Z'
+        });
+        expect(result.summary).toBe(
+          '192.0.2.0/29: 2 of 6 address(es) have threat intelligence (1 malicious, 1 suspicious). 1 address(es) could not be looked up'
+        );
+      });
+
+      it('should refuse prefixes above the host limit', async () => {
+        await expect(tools.executeTool('guardian_intel_cidr_lookup', { cidr: '10.0.0.0/16' }))
+          .rejects.toThrow('10.0.0.0/16 has 65534 host addresses, more than the limit of 256');
+
+        const narrowTools = new GuardianIntelTools(mockClient, { cidrMaxHosts: 8 });
+        await expect(narrowTools.executeTool('guardian_intel_cidr_lookup', { cidr: '2001:db8::/124' }))
+          .rejects.toThrow('more than the limit of 8');
+        expect(mockClient.lookupIps).not.toHaveBeenCalled();
+      });
+
+      it('should refuse a host limit that is not a positive integer', () => {
+        expect(() => new GuardianIntelTools(mockClient, { cidrMaxHosts: Number('abc') }))
+          .toThrow('cidrMaxHosts must be a positive integer');
+        expect(() => new GuardianIntelTools(mockClient, { cidrMaxHosts: 100.5 }))
+          .toThrow('cidrMaxHosts must be a positive integer');
+        expect(() => new GuardianIntelTools(mockClient, { cidrMaxHosts: 0 }))
+          .toThrow('cidrMaxHosts must be a positive integer');
+      });
+
+      it('should reject input that is not a prefix', async () => {
+        await expect(tools.executeTool('guardian_intel_cidr_lookup', { cidr: '192.0.2.0/40' }))
+          .rejects.toThrow('cidr must be an IPv4 or IPv6 prefix');
+      });
+    });
+
+    describe('guardian_intel_scan_text', () => {
+      it('should look up routable addresses and report findings with line numbers', async () => {
+        mockClient.lookupIps.mockResolvedValue({
+          results: [
+            { ip: '45.33.32.156', tags: ['tool:scanner'], threat_level: 'suspicious', confidence: 'medium' },
+            { ip: '185.220.101.1', tags: ['credentials:brute-force'], threat_level: 'malicious', confidence: 'high' }
+          ],
+          errors: [{ ip: '8.8.8.8', error: 'Resource not found', type: 'NotFoundError', status: 404 }],
+          requested: 3,
+          unique: 3
+        });
+
+        const result = await tools.executeTool('guardian_intel_scan_text', {
+          text: 'scan from 45.33.32.156\nlogin from 185.220.101[.]1 via 10.0.0.5\ndns 8.8.8.8'
+        });
+
+        expect(mockClient.lookupIps).toHaveBeenCalledWith(['45.33.32.156', '185.220.101.1', '8.8.8.8'], expect.anything());
+        expect(result.findings).toEqual([
+          { ip: '185.220.101.1', lines: [2], threat_level: 'malicious', confidence: 'high', tags: ['credentials:brute-force'], last_seen: undefined, asn: null },
+          { ip: '45.33.32.156', lines: [1], threat_level: 'suspicious', confidence: 'medium', tags: ['tool:scanner'], last_seen: undefined, asn: null }
+        ]);
+        expect(result.no_intel).toEqual([{ ip: '8.8.8.8', lines: [3] }]);
+        expect(result.skipped).toEqual([{ ip: '10.0.0.5', lines: [2], range: 'private', cidr: '10.0.0.0/8' }]);
+        expect(result.summary).toBe(
+          'Found 4 IP address(es): 1 malicious, 1 suspicious, 1 without threat intelligence, 1 private or reserved'
+        );
+      });
+
+      it('should not call the API when only private addresses are found', async () => {
+        const result = await tools.executeTool('guardian_intel_scan_text', { text: 'gateway 192.168.0.1' });
+
+        expect(mockClient.lookupIps).not.toHaveBeenCalled();
+        expect(result.looked_up).toBe(0);
+        expect(result.skipped).toHaveLength(1);
+      });
+
+      it('should reject empty text', async () => {
+        await expect(tools.executeTool('guardian_intel_scan_text', { text: '  ' }))
+          .rejects.toThrow('text must be a non-empty string');
+      });
+    });
+
+    describe('guardian_intel_email_headers', () => {
+      const headers = [
+        'Received: from mx-internal.example.com (mx-internal.example.com [10.1.2.3]) by mail.example.com with ESMTP; Tue, 1 Oct 2024 10:00:05 +0000',
+        'Received: from mail.sender.org (mail.sender.org [45.33.32.156]) by mx1.example.com with ESMTPS; Tue, 1 Oct 2024 10:00:03 +0000',
+        'Received: from [192.168.1.20] (helo=laptop) by mail.sender.org with esmtpsa; Tue, 1 Oct 2024 10:00:00 +0000',
+        'X-Originating-IP: [185.220.101.1]',
+        'Authentication-Results: mail.example.com; spf=pass smtp.mailfrom=sender.org; dmarc=fail header.from=sender.org'
+      ].join('\n');
+
+      it('should look up public relays and base the verdict on the first external hop', async () => {
+        mockClient.lookupIps.mockResolvedValue({
+          results: [
+            { ip: '45.33.32.156', tags: ['spam:source'], threat_level: 'malicious', confidence: 'high' },
+            { ip: '185.220.101.1', tags: ['anonymizer:tor-exit'], threat_level: 'suspicious', confidence: 'medium' }
+          ],
+          errors: [],
+          requested: 2,
+          unique: 2
+        });
+
+        const result = await tools.executeTool('guardian_intel_email_headers', { headers });
+
+        expect(mockClient.lookupIps).toHaveBeenCalledWith(['185.220.101.1', '45.33.32.156'], expect.anything());
+        expect(result.first_external_hop).toBe(3);
+        expect((result.hops as Array<{ hop: number; intel: unknown }>).map(hop => [hop.hop, hop.intel])).toEqual([
+          [1, { threat_level: 'suspicious', confidence: 'medium', tags: ['anonymizer:tor-exit'] }],
+          [2, null],
+          [3, { threat_level: 'malicious', confidence: 'high', tags: ['spam:source'] }],
+          [4, null]
+        ]);
+        expect(result.verdict).toEqual({
+          level: 'malicious',
+          sending_ip: '45.33.32.156',
+          tags: ['spam:source', 'anonymizer:tor-exit'],
+          reasons: [
+            'Sending IP 45.33.32.156 is malicious (spam:source)',
+            'Earlier relay 185.220.101.1 (hop 1) is suspicious',
+            'DMARC fail'
+          ]
+        });
+        expect(result.summary).toMatch(/^Entered the receiving infrastructure from 45\.33\.32\.156 \(hop 3 of 4\): malicious\./);
+      });
+
+      it('should report authentication failures as suspicious when the relays are clean', async () => {
+        mockClient.lookupIps.mockResolvedValue({
+          results: [],
+          errors: [
+            { ip: '185.220.101.1', error: 'Resource not found', type: 'NotFoundError', status: 404 },
+            { ip: '45.33.32.156', error: 'Resource not found', type: 'NotFoundError', status: 404 }
+          ],
+          requested: 2,
+          unique: 2
+        });
+
+        const result = await tools.executeTool('guardian_intel_email_headers', { headers });
+
+        expect(result.verdict).toEqual({ level: 'suspicious', sending_ip: '45.33.32.156', tags: [], reasons: ['DMARC fail'] });
+        expect(result.errors).toEqual([]);
+      });
+
+      it('should return an unknown verdict when every relay is internal', async () => {
+        const result = await tools.executeTool('guardian_intel_email_headers', {
+          headers: 'Received: from [10.0.0.7] by mail.example.com with ESMTP; Tue, 1 Oct 2024 10:00:00 +0000'
+        });
+
+        expect(mockClient.lookupIps).not.toHaveBeenCalled();
+        expect(result.first_external_hop).toBeNull();
+        expect(result.verdict).toMatchObject({ level: 'unknown', sending_ip: null });
+      });
+
+      it('should reject text without relay headers', async () => {
+        await expect(tools.executeTool('guardian_intel_email_headers', { headers: 'Subject: hello' }))
+          .rejects.toThrow('No Received or X-Originating-IP headers found');
+      });
     });
 
     describe('guardian_intel_tags_list', () => {
@@ -200,7 +491,7 @@ describe('GuardianIntelTools', () => {
 
         const result = await tools.executeTool('guardian_intel_tags_list', { includeDescriptions: true });
 
-        expect(mockClient.getTags).toHaveBeenCalledWith(true);
+        expect(mockClient.getTags).toHaveBeenCalledWith(true, { fresh: undefined });
         expect(result).toEqual({
           total_tags: 3,
           tags: ['credentials:brute-force', 'tool:scanner', 'actor:apt29'],
@@ -236,12 +527,32 @@ describe('GuardianIntelTools', () => {
         });
       });
 
+      it('should group tags by namespace in tree format', async () => {
+        mockClient.getTags.mockResolvedValue(mockTagsResponse as any);
+
+        const result = await tools.executeTool('guardian_intel_tags_list', { format: 'tree' });
+
+        expect(mockClient.getTags).toHaveBeenCalledWith(true, { fresh: undefined });
+        expect(result.total_tags).toBe(3);
+        expect(result.tags).toBeUndefined();
+        expect(result.tree).toEqual([
+          expect.objectContaining({ path: 'actor', count: 1, intents: { malicious: 1 } }),
+          expect.objectContaining({ path: 'credentials', count: 1, intents: { malicious: 1 } }),
+          expect.objectContaining({ path: 'tool', count: 1, intents: { suspicious: 1 } })
+        ]);
+      });
+
+      it('should reject an unknown format', async () => {
+        await expect(tools.executeTool('guardian_intel_tags_list', { format: 'xml' }))
+          .rejects.toThrow('format must be "flat" or "tree"');
+      });
+
       it('should handle tags list without descriptions', async () => {
         mockClient.getTags.mockResolvedValue(mockTagsResponse as any);
 
         await tools.executeTool('guardian_intel_tags_list', { includeDescriptions: false });
 
-        expect(mockClient.getTags).toHaveBeenCalledWith(false);
+        expect(mockClient.getTags).toHaveBeenCalledWith(false, { fresh: undefined });
       });
 
       it('should handle default parameters', async () => {
@@ -249,7 +560,119 @@ describe('GuardianIntelTools', () => {
 
         await tools.executeTool('guardian_intel_tags_list', {});
 
-        expect(mockClient.getTags).toHaveBeenCalledWith(undefined);
+        expect(mockClient.getTags).toHaveBeenCalledWith(undefined, { fresh: undefined });
+      });
+    });
+
+    describe('guardian_intel_tag_tree', () => {
+      const mockTagsResponse = {
+        tags: ['scanner:shodan', 'scanner:web:nuclei', 'credentials:brute-force'],
+        tag_details: [
+          { name: 'scanner:shodan', intent: 'unknown' },
+          { name: 'scanner:web:nuclei', intent: 'suspicious' },
+          { name: 'credentials:brute-force', intent: 'malicious' }
+        ]
+      };
+
+      it('should return the branch under a namespace', async () => {
+        mockClient.getTags.mockResolvedValue(mockTagsResponse);
+
+        const result = await tools.executeTool('guardian_intel_tag_tree', { root: 'scanner:', depth: 1 });
+
+        expect(mockClient.getTags).toHaveBeenCalledWith(true, { fresh: undefined });
+        expect(result).toMatchObject({
+          root: 'scanner',
+          total_tags: 2,
+          intents: { unknown: 1, suspicious: 1 },
+          is_tag: false
+        });
+        expect(result.tree).toEqual([
+          { name: 'shodan', path: 'scanner:shodan', count: 1, intents: { unknown: 1 }, is_tag: true, children: [] },
+          { name: 'web', path: 'scanner:web', count: 1, intents: { suspicious: 1 }, is_tag: false, children: [], collapsed: 1 }
+        ]);
+      });
+
+      it('should return the whole taxonomy without a root', async () => {
+        mockClient.getTags.mockResolvedValue(mockTagsResponse);
+
+        const result = await tools.executeTool('guardian_intel_tag_tree', {});
+
+        expect(result).toMatchObject({ root: null, total_tags: 3 });
+        expect((result.tree as Array<{ path: string }>).map(node => node.path)).toEqual(['scanner', 'credentials']);
+      });
+
+      it('should reject unknown namespaces and invalid depths', async () => {
+        mockClient.getTags.mockResolvedValue(mockTagsResponse);
+
+        await expect(tools.executeTool('guardian_intel_tag_tree', { root: 'botnet' }))
+          .rejects.toThrow('No tags found under namespace "botnet"');
+        await expect(tools.executeTool('guardian_intel_tag_tree', { depth: 0 }))
+          .rejects.toThrow('depth must be a positive integer');
+      });
+    });
+
+    describe('guardian_intel_tag_search', () => {
+      const mockTagsResponse = {
+        tags: ['credentials:brute-force', 'scanner:shodan', 'scanner:censys', 'botnet:mirai'],
+        tag_details: [
+          { name: 'credentials:brute-force', intent: 'malicious', category: 'activity', description: 'Password guessing' },
+          { name: 'scanner:shodan', intent: 'unknown', category: 'actor' },
+          { name: 'scanner:censys', intent: 'unknown', category: 'actor' },
+          { name: 'botnet:mirai', intent: 'malicious', category: 'tool', description: 'Telnet brute forcing' }
+        ],
+        cache: { hit: true, age_seconds: 12 }
+      };
+
+      it('should search the cached full tag list and rank the results', async () => {
+        mockClient.getTags.mockResolvedValue(mockTagsResponse);
+
+        const result = await tools.executeTool('guardian_intel_tag_search', { query: 'brute' });
+
+        expect(mockClient.getTags).toHaveBeenCalledWith(true, { fresh: undefined });
+        expect(result).toMatchObject({
+          query: 'brute',
+          total_matches: 2,
+          truncated: false,
+          cache: { hit: true, age_seconds: 12 }
+        });
+        expect(result.results).toEqual([
+          {
+            name: 'credentials:brute-force',
+            intent: 'malicious',
+            category: 'activity',
+            description: 'Password guessing',
+            score: 50,
+            matched_fields: ['name'],
+            highlights: { name: 'credentials:**brute**-force' }
+          },
+          {
+            name: 'botnet:mirai',
+            intent: 'malicious',
+            category: 'tool',
+            description: 'Telnet brute forcing',
+            score: 20,
+            matched_fields: ['description'],
+            highlights: { description: 'Telnet **brute** forcing' }
+          }
+        ]);
+      });
+
+      it('should filter by intent and category and apply the limit', async () => {
+        mockClient.getTags.mockResolvedValue(mockTagsResponse);
+
+        const filtered = await tools.executeTool('guardian_intel_tag_search', { query: 'brute', category: 'Tool' });
+        expect((filtered.results as Array<{ name: string }>).map(tag => tag.name)).toEqual(['botnet:mirai']);
+
+        const limited = await tools.executeTool('guardian_intel_tag_search', { query: 'scanner:', limit: 1 });
+        expect(limited).toMatchObject({ total_matches: 2, truncated: true });
+        expect(limited.results).toHaveLength(1);
+      });
+
+      it('should validate the query and limit', async () => {
+        await expect(tools.executeTool('guardian_intel_tag_search', { query: ' ' }))
+          .rejects.toThrow('query must be a non-empty string');
+        await expect(tools.executeTool('guardian_intel_tag_search', { query: 'scanner', limit: 500 }))
+          .rejects.toThrow('limit must be an integer between 1 and 50');
       });
     });
 
@@ -269,7 +692,7 @@ describe('GuardianIntelTools', () => {
           tagName: 'credentials:brute-force' 
         });
 
-        expect(mockClient.getTagDetails).toHaveBeenCalledWith('credentials:brute-force');
+        expect(mockClient.getTagDetails).toHaveBeenCalledWith('credentials:brute-force', { fresh: undefined });
         expect(result).toEqual({
           tag: {
             name: 'credentials:brute-force',
@@ -358,6 +781,377 @@ describe('GuardianIntelTools', () => {
       });
     });
 
+    describe('guardian_intel_tag_membership', () => {
+      beforeEach(() => {
+        mockClient.lookupIps.mockResolvedValue({
+          results: [
+            { ip: '192.0.2.1', tags: ['Credentials:Brute-Force'], threat_level: 'malicious' },
+            { ip: '192.0.2.2', tags: ['scanner:shodan'], threat_level: 'suspicious' }
+          ],
+          errors: [{ ip: '192.0.2.3', error: 'Resource not found', type: 'NotFoundError', status: 404 }],
+          requested: 3,
+          unique: 3
+        });
+        mockClient.iterateTagIps.mockImplementation(async function* (tag: string) {
+          yield { tag, ips: ['192.0.2.1', '192.0.2.3'], offset: 0, limit: 10000, total: 2, snapshot: 'snap-1' } as TagIpsResponse;
+        });
+      });
+
+      it('should answer from lookup tags first and fall back to the tag list', async () => {
+        const result = await tools.executeTool('guardian_intel_tag_membership', {
+          tagName: 'credentials:brute-force',
+          ips: ['192.0.2.1', '192.0.2.2', '192.0.2.3', 'not-an-ip']
+        });
+
+        expect(mockClient.lookupIps).toHaveBeenCalledWith(['192.0.2.1', '192.0.2.2', '192.0.2.3'], expect.anything());
+        expect(mockClient.iterateTagIps).toHaveBeenCalledWith('credentials:brute-force', { signal: undefined });
+        expect(result).toMatchObject({
+          results: [
+            { ip: '192.0.2.1', member: true, source: 'lookup' },
+            { ip: '192.0.2.2', member: false, source: 'lookup' },
+            { ip: '192.0.2.3', member: true, source: 'tag_list' }
+          ],
+          members: 2,
+          invalid: ['not-an-ip'],
+          tag_list: { snapshot: 'snap-1', total: 2, truncated: false, cached: false },
+          summary: '2 of 3 address(es) are in credentials:brute-force. 1 invalid address(es) were skipped'
+        });
+      });
+
+      it('should not walk the tag when every lookup succeeds', async () => {
+        const result = await tools.executeTool('guardian_intel_tag_membership', {
+          tagName: 'credentials:brute-force',
+          ips: ['192.0.2.1', '192.0.2.2']
+        });
+
+        expect(mockClient.iterateTagIps).not.toHaveBeenCalled();
+        expect(result).toMatchObject({
+          results: [
+            { ip: '192.0.2.1', member: true, source: 'lookup' },
+            { ip: '192.0.2.2', member: false, source: 'lookup' }
+          ],
+          members: 1,
+          tag_list: null
+        });
+      });
+
+      it('should reuse the cached tag list until asked for fresh data', async () => {
+        const params = { tagName: 'credentials:brute-force', ips: ['192.0.2.3'] };
+
+        await tools.executeTool('guardian_intel_tag_membership', params);
+        const cached = await tools.executeTool('guardian_intel_tag_membership', params);
+        expect(mockClient.iterateTagIps).toHaveBeenCalledTimes(1);
+        expect(cached.tag_list).toMatchObject({ cached: true, snapshot: 'snap-1' });
+
+        await tools.executeTool('guardian_intel_tag_membership', { ...params, fresh: true });
+        expect(mockClient.iterateTagIps).toHaveBeenCalledTimes(2);
+      });
+
+      it('should validate its input', async () => {
+        await expect(tools.executeTool('guardian_intel_tag_membership', { tagName: '', ips: ['192.0.2.1'] }))
+          .rejects.toThrow('tagName must be a non-empty string');
+        await expect(tools.executeTool('guardian_intel_tag_membership', { tagName: 'scanner:shodan', ips: [] }))
+          .rejects.toThrow('ips must contain between 1 and 500 addresses');
+      });
+    });
+
+    describe('guardian_intel_tag_set_ops', () => {
+      const tagPages: Record<string, string[][]> = {
+        'credentials:brute-force': [['192.0.2.1', '192.0.2.2'], ['192.0.2.3', '2001:db8::1']],
+        'botnet:mirai': [['192.0.2.3', '192.0.2.9', '2001:DB8::1']],
+        'scanner:shodan': [['192.0.2.9']]
+      };
+
+      beforeEach(() => {
+        mockClient.iterateTagIps.mockImplementation(async function* (tag: string) {
+          const pages = tagPages[tag] ?? [];
+          const total = pages.flat().length;
+          let offset = 0;
+          for (const ips of pages) {
+            yield { tag, ips, offset, limit: 2, total, snapshot: `snap-${tag}` } as TagIpsResponse;
+            offset += ips.length;
+          }
+        });
+      });
+
+      it('should intersect tags while streaming their pages', async () => {
+        const result = await tools.executeTool('guardian_intel_tag_set_ops', {
+          operation: 'intersection',
+          tags: ['credentials:brute-force', 'botnet:mirai']
+        });
+
+        expect(mockClient.iterateTagIps).toHaveBeenCalledTimes(2);
+        expect(result).toMatchObject({
+          operation: 'intersection',
+          count: 2,
+          sample: ['192.0.2.3', '2001:db8::1'],
+          truncated: false,
+          summary: '2 IP address(es) in all of credentials:brute-force, botnet:mirai'
+        });
+        expect(result.tags).toEqual([
+          { tag: 'credentials:brute-force', snapshot: 'snap-credentials:brute-force', total: 4, ips_read: 4, pages: 2, truncated: false },
+          { tag: 'botnet:mirai', snapshot: 'snap-botnet:mirai', total: 3, ips_read: 3, pages: 1, truncated: false }
+        ]);
+      });
+
+      it('should compute unions and differences', async () => {
+        const union = await tools.executeTool('guardian_intel_tag_set_ops', {
+          operation: 'union',
+          tags: ['credentials:brute-force', 'botnet:mirai', 'scanner:shodan'],
+          sampleSize: 2
+        });
+        expect(union).toMatchObject({ count: 5 });
+        expect(union.sample).toHaveLength(2);
+
+        const difference = await tools.executeTool('guardian_intel_tag_set_ops', {
+          operation: 'difference',
+          tags: ['credentials:brute-force', 'botnet:mirai', 'scanner:shodan'],
+          full: true
+        });
+        expect(difference).toMatchObject({
+          count: 2,
+          ips: ['192.0.2.1', '192.0.2.2'],
+          truncated: false,
+          summary: '2 IP address(es) in credentials:brute-force but not in botnet:mirai, scanner:shodan'
+        });
+        expect(difference.sample).toBeUndefined();
+      });
+
+      it('should check the quota before walking unless forced', async () => {
+        mockClient.assertQuotaAvailable.mockImplementation(() => {
+          throw new QuotaThresholdError('Refusing tag set operation', { remaining: 5, softLimit: 10 });
+        });
+
+        await expect(tools.executeTool('guardian_intel_tag_set_ops', {
+          operation: 'union',
+          tags: ['credentials:brute-force', 'botnet:mirai']
+        })).rejects.toThrow(QuotaThresholdError);
+        expect(mockClient.iterateTagIps).not.toHaveBeenCalled();
+
+        await tools.executeTool('guardian_intel_tag_set_ops', {
+          operation: 'union',
+          tags: ['credentials:brute-force', 'botnet:mirai'],
+          force: true
+        });
+        expect(mockClient.iterateTagIps).toHaveBeenCalledTimes(2);
+      });
+
+      it('should charge the remaining pages of a tag against the quota', async () => {
+        await tools.executeTool('guardian_intel_tag_set_ops', {
+          operation: 'union',
+          tags: ['credentials:brute-force', 'botnet:mirai']
+        });
+
+        expect(mockClient.assertQuotaAvailable).toHaveBeenCalledWith('tag set operation', 2);
+        expect(mockClient.assertQuotaAvailable).toHaveBeenCalledWith('walking credentials:brute-force', 1);
+        expect(mockClient.assertQuotaAvailable).toHaveBeenCalledTimes(2);
+      });
+
+      it('should validate the operation and tag count', async () => {
+        await expect(tools.executeTool('guardian_intel_tag_set_ops', { operation: 'xor', tags: ['a', 'b'] }))
+          .rejects.toThrow('operation must be "intersection", "union" or "difference"');
+        await expect(tools.executeTool('guardian_intel_tag_set_ops', { operation: 'union', tags: ['a'] }))
+          .rejects.toThrow('tags must list between 2 and 5 tag names');
+      });
+    });
+
+    describe('guardian_intel_export_blocklist', () => {
+      beforeEach(() => {
+        mockClient.iterateTagIps.mockImplementation(async function* (tag: string) {
+          yield { tag, ips: ['192.0.2.1', 'bogus'], offset: 0, limit: 2, total: 3, snapshot: 'snap-1' } as TagIpsResponse;
+          yield { tag, ips: ['2001:db8::1'], offset: 2, limit: 2, total: 3, snapshot: 'snap-1' } as TagIpsResponse;
+        });
+      });
+
+      it('should export every page of a tag in the requested format', async () => {
+        const result = await tools.executeTool('guardian_intel_export_blocklist', {
+          tagName: 'credentials:brute-force',
+          format: 'nftables',
+          setName: 'bf'
+        });
+
+        expect(result).toMatchObject({
+          tag: 'credentials:brute-force',
+          format: 'nftables',
+          snapshot: 'snap-1',
+          total: 3,
+          entries: 2,
+          skipped: 1,
+          pages: 2,
+          truncated: false,
+          summary: 'Exported 2 entries of credentials:brute-force as nftables. Skipped 1 entry that was not an IP address or prefix'
+        });
+        expect(result.content).toContain('# Tag: credentials:brute-force\n# Snapshot: snap-1\n');
+        expect(result.content).toMatch(/add element inet guardian_intel bf_v4 \{ 192\.0\.2\.1 \}\nadd element inet guardian_intel bf_v6 \{ 2001:db8::1 \}\n$/);
+        expect(mockClient.assertQuotaAvailable).toHaveBeenCalledWith('blocklist export', 1);
+      });
+
+      it('should validate the format', async () => {
+        await expect(tools.executeTool('guardian_intel_export_blocklist', { tagName: 'a', format: 'json' }))
+          .rejects.toThrow('format must be one of txt, csv, ipset, nftables, iptables, pf, suricata, snort, edl');
+        await expect(tools.executeTool('guardian_intel_export_blocklist', { tagName: 'a', format: 'iptables', setName: 'x; reboot #' }))
+          .rejects.toThrow('setName must be 1 to 28 letters, digits or underscores for the iptables format');
+        await expect(tools.executeTool('guardian_intel_export_blocklist', { tagName: 'a', format: 'suricata', category: 'x' }))
+          .rejects.toThrow(ValidationError);
+        await expect(tools.executeTool('guardian_intel_export_blocklist', { tagName: 'a', format: 'suricata', score: 500 }))
+          .rejects.toThrow('score must be an integer from 0 to 127');
+        expect(mockClient.iterateTagIps).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('guardian_intel_status', () => {
+      it('should report circuit breaker, cache and queue state', async () => {
+        mockClient.getCircuitBreakerState.mockReturnValue({
+          state: 'open',
+          failureRate: 0.6,
+          recentRequests: 10,
+          recentFailures: 6,
+          openedAt: '2024-01-01T00:00:00.000Z',
+          retryAfterMs: 12500
+        });
+        mockClient.getCacheStats.mockReturnValue({ enabled: true, size: 3, capacity: 1000 });
+        mockClient.getQueueDepth.mockReturnValue(2);
+
+        const result = await tools.executeTool('guardian_intel_status', { diagnose: false });
+
+        expect(mockClient.diagnose).not.toHaveBeenCalled();
+        expect(result).toEqual({
+          circuit_breaker: {
+            state: 'open',
+            failure_rate: 0.6,
+            recent_requests: 10,
+            recent_failures: 6,
+            opened_at: '2024-01-01T00:00:00.000Z',
+            retry_after_seconds: 13
+          },
+          cache: { enabled: true, size: 3, capacity: 1000 },
+          queue_depth: 2,
+          quota: undefined,
+          metrics: undefined,
+          summary: 'Guardian Intel upstream is degraded; requests fail fast for another 13s'
+        });
+      });
+    });
+
+    describe('guardian_intel_status diagnostics', () => {
+      it('should include the diagnostics report by default', async () => {
+        mockClient.getCircuitBreakerState.mockReturnValue(undefined);
+        mockClient.getCacheStats.mockReturnValue({ enabled: false, size: 0, capacity: 0 });
+        mockClient.getQueueDepth.mockReturnValue(0);
+        mockClient.diagnose.mockResolvedValue({
+          status: 'unhealthy',
+          checked_at: '2024-01-01T00:00:00.000Z',
+          client_version: '1.0.0',
+          base_url: 'https://threat-intel-api.abusix.com/beta',
+          connectivity: {
+            host: 'threat-intel-api.abusix.com',
+            port: 443,
+            dns: { status: 'fail', duration_ms: 3, detail: 'ENOTFOUND' },
+            tcp: { status: 'skipped', detail: 'DNS resolution failed' },
+            tls: { status: 'skipped', detail: 'TCP connection failed' }
+          },
+          api_key: { status: 'unknown', detail: 'no probe got far enough to check the key' },
+          endpoints: [],
+          rate_limit: {},
+          cache: { enabled: false, size: 0, capacity: 0 },
+          circuit_breaker: { state: 'disabled' },
+          queue_depth: 0
+        });
+
+        const result = await tools.executeTool('guardian_intel_status', {});
+
+        expect(result.summary).toBe('Guardian Intel connection is unhealthy: DNS failed (ENOTFOUND)');
+        expect((result.diagnostics as any).connectivity.dns.detail).toBe('ENOTFOUND');
+        expect(result.report).toContain('✗ DNS');
+        expect(result.report).toContain('- TCP');
+      });
+    });
+
+    describe('cancellation', () => {
+      it('should pass the request signal to the client', async () => {
+        const controller = new AbortController();
+        mockClient.getTagIps.mockResolvedValue({ tag: 'tool:scanner', ips: [] });
+
+        await tools.executeTool('guardian_intel_tag_ips', { tagName: 'tool:scanner' }, controller.signal);
+
+        expect(mockClient.getTagIps).toHaveBeenCalledWith('tool:scanner', expect.objectContaining({
+          signal: controller.signal
+        }));
+      });
+
+      it('should pass cancellation errors through unchanged', async () => {
+        const cancelled = new RequestAbortedError('Guardian Intel API request was cancelled', { endpoint: 'lookup' });
+        mockClient.lookupIp.mockRejectedValue(cancelled);
+
+        await expect(tools.executeTool('guardian_intel_lookup', { ip: '1.2.3.4' }, new AbortController().signal))
+          .rejects.toBe(cancelled);
+      });
+    });
+
+    describe('guardian_intel_quota', () => {
+      it('should report the tracked quota', async () => {
+        mockClient.getQuotaStatus.mockReturnValue({
+          source: 'quota',
+          limit: 1000,
+          remaining: 400,
+          reset_at: '2024-01-02T00:00:00.000Z',
+          reset_in_seconds: 3600,
+          low: false,
+          observed_at: '2024-01-01T23:00:00.000Z'
+        });
+
+        const result = await tools.executeTool('guardian_intel_quota', {});
+
+        expect(mockClient.refreshQuota).not.toHaveBeenCalled();
+        expect(result.quota).toMatchObject({ remaining: 400, low: false });
+        expect(result.summary).toBe('400 of 1000 requests left in the API quota, resets in 3600s');
+      });
+
+      it('should make a request first when asked to refresh', async () => {
+        mockClient.getQuotaStatus.mockReturnValue(undefined);
+
+        const result = await tools.executeTool('guardian_intel_quota', { refresh: true });
+
+        expect(mockClient.refreshQuota).toHaveBeenCalled();
+        expect(result.summary).toBe('The Guardian Intel API did not report any quota information');
+      });
+    });
+
+    describe('quota warnings', () => {
+      it('should attach the quota to results when it runs low', async () => {
+        mockClient.getTagDetails.mockResolvedValue({ name: 'tool:scanner' } as any);
+        mockClient.getQuotaStatus.mockReturnValue({
+          source: 'rate_limit',
+          limit: 100,
+          remaining: 3,
+          low: true,
+          observed_at: '2024-01-01T00:00:00.000Z'
+        });
+
+        const result = await tools.executeTool('guardian_intel_tag_details', { tagName: 'tool:scanner' });
+
+        expect(result.quota).toMatchObject({ remaining: 3, low: true });
+        expect((result.quota as any).message).toBe(
+          '3 of 100 requests left in the API rate limit window. Quota is running low - prefer cached results and narrower queries'
+        );
+      });
+
+      it('should leave results alone while the quota is healthy', async () => {
+        mockClient.getTagDetails.mockResolvedValue({ name: 'tool:scanner' } as any);
+        mockClient.getQuotaStatus.mockReturnValue({
+          source: 'rate_limit',
+          limit: 100,
+          remaining: 90,
+          low: false,
+          observed_at: '2024-01-01T00:00:00.000Z'
+        });
+
+        const result = await tools.executeTool('guardian_intel_tag_details', { tagName: 'tool:scanner' });
+
+        expect(result).not.toHaveProperty('quota');
+      });
+    });
+
     describe('error handling', () => {
       it('should throw error for unknown tool', async () => {
         await expect(tools.executeTool('unknown_tool', {}))
@@ -371,6 +1165,17 @@ describe('GuardianIntelTools', () => {
           .rejects.toThrow('Tool execution failed: Client error');
       });
 
+      it('should pass typed client errors through unchanged', async () => {
+        const notFound = new NotFoundError('Guardian Intel API Error (404): Resource not found', {
+          status: 404,
+          endpoint: 'lookup'
+        });
+        mockClient.lookupIp.mockRejectedValue(notFound);
+
+        await expect(tools.executeTool('guardian_intel_lookup', { ip: '1.2.3.4' }))
+          .rejects.toBe(notFound);
+      });
+
       it('should handle non-Error exceptions', async () => {
         mockClient.lookupIp.mockRejectedValue('String error');
 